@@ -0,0 +1,71 @@
+// Compares pattern resolution in `BasicRegistry` and `IndexedRegistry` as the
+// number of registrations grows. Run with `npm run bench` (builds first).
+import { performance } from "node:perf_hooks"
+import {
+  BasicRegistry,
+  FunctionElement,
+  IndexedRegistry
+} from "../dist/esm/index.js"
+
+const SIZES = [100, 1000, 10000]
+const PATTERNS = {
+  "svc + method": (n) => ({ svc: `svc${n % 50}`, method: `m${n}` }),
+  "svc only": (n) => ({ svc: `svc${n % 50}` }),
+  "operators only": () => ({ version: { $in: [1] } })
+}
+
+function fill(registry, size) {
+  for (let i = 0; i < size; i++) {
+    const name = { svc: `svc${i % 50}`, method: `m${i}`, version: i % 3 }
+    registry.register(name, new FunctionElement(name, async () => undefined))
+  }
+  return registry
+}
+
+function opsPerSecond(registry, makePattern, size) {
+  const patterns = Array.from({ length: 100 }, (_, i) =>
+    makePattern((i * 7919) % size)
+  )
+  let ops = 0
+  const start = performance.now()
+  let elapsed = 0
+  while (elapsed < 200) {
+    for (const pattern of patterns) registry.match(pattern)
+    ops += patterns.length
+    elapsed = performance.now() - start
+  }
+  return (ops / elapsed) * 1000
+}
+
+const rows = []
+for (const size of SIZES) {
+  const basic = fill(new BasicRegistry(), size)
+  const indexed = fill(new IndexedRegistry(), size)
+  for (const [label, makePattern] of Object.entries(PATTERNS)) {
+    const basicOps = opsPerSecond(basic, makePattern, size)
+    const indexedOps = opsPerSecond(indexed, makePattern, size)
+    rows.push([
+      String(size),
+      label,
+      basicOps.toFixed(0),
+      indexedOps.toFixed(0),
+      `${(indexedOps / basicOps).toFixed(1)}x`
+    ])
+  }
+}
+
+const header = [
+  "registrations",
+  "pattern",
+  "basic ops/s",
+  "indexed ops/s",
+  "speedup"
+]
+const widths = header.map((h, i) =>
+  Math.max(h.length, ...rows.map((row) => row[i].length))
+)
+for (const row of [header, ...rows]) {
+  process.stdout.write(
+    row.map((cell, i) => cell.padStart(widths[i])).join("  ") + "\n"
+  )
+}
@@ -0,0 +1,94 @@
+import type {
+  Context,
+  ContextMetadata,
+  ContextSecurity,
+  Name,
+  Resolution,
+  Resolver
+} from "./core-types.js"
+import { AuthorizationError } from "./errors.js"
+import { matches } from "./pattern-matching.js"
+
+/**
+ * A rule deciding whether callers may use the names matching `pattern`
+ * through an `Ingress`. A policy applies to a request when the requested
+ * pattern (and later the resolved name) matches its `pattern`, and the
+ * caller satisfies its conditions, if any.
+ */
+export type IngressPolicy = {
+  pattern: Name
+  effect: "allow" | "deny"
+  /** The caller must have at least one of these roles. */
+  roles?: string[]
+  /** Further condition on the caller's security metadata. */
+  when?: (security: ContextSecurity | undefined) => boolean
+}
+
+function applies(
+  policy: IngressPolicy,
+  name: Name,
+  security: ContextSecurity | undefined
+): boolean {
+  if (!matches(name, policy.pattern)) return false
+  if (
+    policy.roles !== undefined &&
+    !policy.roles.some((role) => security?.roles?.includes(role) === true)
+  ) {
+    return false
+  }
+  return policy.when?.(security) ?? true
+}
+
+/**
+ * Decide whether a caller may use `name`: the first applicable policy
+ * decides, or `defaultEffect` if none applies.
+ */
+export function isAuthorized(
+  policies: readonly IngressPolicy[],
+  defaultEffect: "allow" | "deny",
+  name: Name,
+  security: ContextSecurity | undefined
+): boolean {
+  const policy = policies.find((p) => applies(p, name, security))
+  return (policy?.effect ?? defaultEffect) === "allow"
+}
+
+/**
+ * A `Resolver` for the root context of an `Ingress`, which refuses to
+ * resolve to names the caller is not authorized to use, so that a broad
+ * pattern cannot reach a name that a narrower one would be denied.
+ */
+export class AuthorizingResolver implements Resolver {
+  resolver: Resolver
+  authorize: (name: Name) => void
+
+  constructor(resolver: Resolver, authorize: (name: Name) => void) {
+    this.resolver = resolver
+    this.authorize = authorize
+  }
+
+  async resolve(
+    pattern: Name,
+    metadata?: ContextMetadata
+  ): Promise<Resolution | undefined> {
+    const resolution = await this.resolver.resolve(pattern, metadata)
+    if (resolution !== undefined) this.authorize(resolution.name)
+    return resolution
+  }
+}
+
+/**
+ * Throw an `AuthorizationError` unless the caller of `context` may use
+ * `name` under the given policies.
+ */
+export function authorize(
+  context: Context,
+  policies: readonly IngressPolicy[],
+  defaultEffect: "allow" | "deny",
+  name: Name
+) {
+  const security = context.metadata.security
+  if (!isAuthorized(policies, defaultEffect, name, security)) {
+    throw new AuthorizationError(context, name, security?.principal)
+  }
+}
@@ -0,0 +1,87 @@
+import type { Context } from "./core-types.js"
+import { TimeoutError } from "./errors.js"
+
+/**
+ * The earliest of the given timeouts, or `undefined` if none is given.
+ */
+export function earliestTimeout(
+  ...timeouts: Array<number | undefined>
+): number | undefined {
+  const given = timeouts.filter((t): t is number => t !== undefined)
+  return given.length === 0 ? undefined : Math.min(...given)
+}
+
+/**
+ * Combines several optional `AbortSignal`s and a timeout into a single
+ * `signal` that aborts, with the corresponding reason, as soon as any of
+ * them does. Disposing the scope detaches it from its sources and cancels
+ * the timeout, so that long-lived parent signals do not accumulate
+ * listeners.
+ */
+export class CancellationScope implements Disposable {
+  /** The combined signal, if there is anything to abort on. */
+  readonly signal?: AbortSignal
+  #cleanup: Array<() => void> = []
+
+  constructor(
+    context: Context,
+    signals: Array<AbortSignal | undefined>,
+    timeout?: number
+  ) {
+    const sources = signals.filter((s): s is AbortSignal => s !== undefined)
+    if (timeout === undefined && sources.length <= 1) {
+      // Nothing to combine
+      this.signal = sources[0]
+      return
+    }
+
+    const controller = new AbortController()
+    this.signal = controller.signal
+    for (const source of sources) {
+      if (source.aborted) {
+        controller.abort(source.reason)
+        return
+      }
+      const onAbort = () => {
+        controller.abort(source.reason)
+      }
+      source.addEventListener("abort", onAbort, { once: true })
+      this.#cleanup.push(() => {
+        source.removeEventListener("abort", onAbort)
+      })
+    }
+    if (timeout !== undefined) {
+      const timer = setTimeout(() => {
+        controller.abort(new TimeoutError(context, timeout))
+      }, timeout)
+      this.#cleanup.push(() => {
+        clearTimeout(timer)
+      })
+    }
+  }
+
+  /**
+   * Settle with the given promise, or reject with the abort reason if the
+   * signal aborts first. The promise itself is not cancelled; it is up to
+   * whatever produced it to observe the signal.
+   */
+  race<T>(promise: Promise<T>): Promise<T> {
+    const signal = this.signal
+    if (signal === undefined) return promise
+    if (signal.aborted) return Promise.reject(signal.reason as Error)
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(signal.reason as Error)
+      }
+      signal.addEventListener("abort", onAbort, { once: true })
+      promise.then(resolve, reject).finally(() => {
+        signal.removeEventListener("abort", onAbort)
+      })
+    })
+  }
+
+  [Symbol.dispose]() {
+    for (const cleanup of this.#cleanup) cleanup()
+    this.#cleanup = []
+  }
+}
@@ -0,0 +1,127 @@
+import type {
+  CircuitBreakerOptions,
+  CircuitBreakerPolicy,
+  CircuitBreakerSnapshot,
+  CircuitBreakers,
+  CircuitCall,
+  CircuitState,
+  Name
+} from "./core-types.js"
+import { hashName } from "./object-hash.js"
+
+/** The circuit breaker policy used where no other policy is specified. */
+export const defaultCircuitBreakerPolicy: CircuitBreakerPolicy = {
+  failureThreshold: 5,
+  coolDown: 10_000,
+  halfOpenMaxCalls: 1,
+  isFailure: () => true
+}
+
+/** The circuit breaker of a single resolved name. */
+export class CircuitBreaker {
+  readonly name: Name
+  readonly policy: CircuitBreakerPolicy
+  state: CircuitState = "closed"
+  failures = 0
+  openedAt?: number
+  /** Internal: probe calls in flight while half-open. */
+  _probes = 0
+
+  constructor(name: Name, policy: CircuitBreakerPolicy) {
+    this.name = name
+    this.policy = policy
+  }
+
+  /** Whether a call would be admitted now. */
+  isAvailable(): boolean {
+    switch (this.state) {
+      case "closed":
+        return true
+      case "open":
+        return Date.now() - (this.openedAt ?? 0) >= this.policy.coolDown
+      case "half-open":
+        return this._probes < this.policy.halfOpenMaxCalls
+    }
+  }
+
+  admit(): CircuitCall | undefined {
+    if (!this.isAvailable()) return undefined
+    if (this.state === "open") this.state = "half-open"
+    const probe = this.state === "half-open"
+    if (probe) this._probes++
+    let settled = false
+    const settle = (outcome: () => void) => {
+      if (settled) return
+      settled = true
+      if (probe) this._probes--
+      outcome()
+    }
+    return {
+      succeeded: () => {
+        settle(() => {
+          this.state = "closed"
+          this.failures = 0
+        })
+      },
+      failed: (err) => {
+        settle(() => {
+          if (!this.policy.isFailure(err)) return
+          this.failures++
+          if (probe || this.failures >= this.policy.failureThreshold) {
+            this.state = "open"
+            this.openedAt = Date.now()
+          }
+        })
+      },
+      abandoned: () => {
+        settle(() => {})
+      }
+    }
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    const { name, state, failures, openedAt } = this
+    return { name, state, failures, openedAt }
+  }
+}
+
+/**
+ * Circuit breakers for the elements called within a domain, created on
+ * demand and keyed by the `hashName` of the resolved name.
+ */
+export class CircuitBreakerRegistry implements CircuitBreakers {
+  readonly policy: CircuitBreakerPolicy
+  /** Internal: breakers by `hashName` of their name. */
+  _breakers = new Map<string, CircuitBreaker>()
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.policy = Object.assign(
+      {},
+      defaultCircuitBreakerPolicy,
+      options
+    ) as CircuitBreakerPolicy
+  }
+
+  /** The breaker for `name`, created closed if there is none yet. */
+  breakerFor(name: Name): CircuitBreaker {
+    const key = hashName(name)
+    let breaker = this._breakers.get(key)
+    if (breaker === undefined) {
+      breaker = new CircuitBreaker(name, this.policy)
+      this._breakers.set(key, breaker)
+    }
+    return breaker
+  }
+
+  isAvailable(name: Name): boolean {
+    return this._breakers.get(hashName(name))?.isAvailable() ?? true
+  }
+
+  admit(name: Name): CircuitCall | undefined {
+    return this.breakerFor(name).admit()
+  }
+
+  snapshot(): CircuitBreakerSnapshot[] {
+    return [...this._breakers.values()].map((breaker) => breaker.snapshot())
+  }
+}
@@ -1,2 +1,12 @@
-import "./primitives/atoms.js"
-import "./primitives/backend.js"
+export * from "./primitives/atoms.js"
+export * from "./primitives/backend.js"
+export * from "./primitives/cache.js"
+export * from "./primitives/circuit-breaker.js"
+export * from "./primitives/health.js"
+export * from "./primitives/interceptors.js"
+export * from "./primitives/introspection.js"
+export * from "./primitives/logging.js"
+export * from "./primitives/name.js"
+export * from "./primitives/retry.js"
+export * from "./primitives/schema.js"
+export * from "./primitives/tracing.js"
@@ -0,0 +1,208 @@
+import {
+  isPlainObject,
+  type SerializableObject,
+  type SerializableValue
+} from "@ferrer/utils"
+import type { Context, Name, TraceVector } from "./core-types.js"
+import {
+  AuthorizationError,
+  CircuitOpenError,
+  EarlyDisposalError,
+  FerrerError,
+  LocalityError,
+  RemoteError,
+  SerializationError,
+  ShutdownError,
+  StubError,
+  TimeoutError,
+  TransportError,
+  UnresolvedPatternError,
+  ValidationError,
+  isTransientError
+} from "./errors.js"
+import { findUnserializable } from "./serializable.js"
+
+/** Serializable description of an error, for sending across a transport. */
+export type MarshalledError = {
+  /** Name of the error class. */
+  name: string
+  /** The error's `code`, or its name if it has none. */
+  code: string
+  message: string
+  isTransient: boolean
+  stack?: string
+  /** The error's `cause`, if any, itself marshalled. */
+  cause?: MarshalledError
+  /** Resolved name of the atom whose context raised the error. */
+  resolvedName?: Name
+  /** Trace of the context that raised the error. */
+  trace?: TraceVector
+  /** Further serializable fields of the error, restored on rehydration. */
+  data?: SerializableObject
+}
+
+/** Options for `marshalError`. */
+export type MarshalOptions = {
+  /** Whether to include stack traces. Defaults to `true`. */
+  stacks?: boolean
+}
+
+// Fields marshalled in their own right rather than as `data`
+const ownFields = new Set([
+  "name",
+  "code",
+  "message",
+  "isTransient",
+  "stack",
+  "cause",
+  "resolvedName",
+  "trace"
+])
+
+// Keys of `data` never restored, lest they replace the fields above or the
+// rehydrated error's prototype
+const unsafeDataKeys = new Set([
+  ...ownFields,
+  "__proto__",
+  "constructor",
+  "prototype"
+])
+
+/**
+ * Describe an error in a form that can be sent across a transport,
+ * including its cause chain. Fields of the error that are not serializable
+ * are left out.
+ */
+export function marshalError(
+  err: unknown,
+  options: MarshalOptions = {},
+  seen: Set<unknown> = new Set()
+): MarshalledError {
+  if (!(err instanceof Error)) {
+    return {
+      name: "Error",
+      code: "Error",
+      message: String(err),
+      isTransient: false
+    }
+  }
+  seen.add(err)
+  const marshalled: MarshalledError = {
+    name: err instanceof RemoteError ? err.remoteName : err.name,
+    code: err instanceof FerrerError ? err.code : err.name,
+    message: err.message,
+    isTransient: isTransientError(err)
+  }
+  const stack = err instanceof RemoteError ? err.remoteStack : err.stack
+  if (options.stacks !== false && stack !== undefined) marshalled.stack = stack
+  if (err.cause !== undefined && !seen.has(err.cause)) {
+    marshalled.cause = marshalError(err.cause, options, seen)
+  }
+  if (err instanceof FerrerError) {
+    if (err.resolvedName !== undefined) {
+      marshalled.resolvedName = err.resolvedName
+    }
+    marshalled.trace = err.trace
+  }
+  const data: SerializableObject = {}
+  for (const [key, value] of Object.entries(err)) {
+    if (ownFields.has(key) || value === undefined) continue
+    if (findUnserializable(value) === undefined) {
+      data[key] = value as SerializableValue
+    }
+  }
+  if (Object.keys(data).length > 0) marshalled.data = data
+  return marshalled
+}
+
+/** Constructor of a `FerrerError` subclass, for an `ErrorRegistry`. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type FerrerErrorClass = abstract new (...args: any[]) => FerrerError
+
+/**
+ * The error classes that marshalled errors are rehydrated as, by code.
+ * Registered classes should keep their state in serializable fields, as
+ * only those are sent.
+ */
+export class ErrorRegistry {
+  /** Internal: registered classes by code. */
+  _classes = new Map<string, FerrerErrorClass>()
+
+  /**
+   * Rehydrate errors with the given code, by default the class name, as
+   * instances of `errorClass`.
+   */
+  register(errorClass: FerrerErrorClass, code: string = errorClass.name) {
+    this._classes.set(code, errorClass)
+  }
+
+  get(code: string): FerrerErrorClass | undefined {
+    return this._classes.get(code)
+  }
+}
+
+/**
+ * The registry used by transports, in which the error classes of this
+ * package are registered. Errors such as `RetriesExhaustedError`, whose
+ * state is not serializable, and plain `FerrerError`s, are not registered,
+ * and so arrive as `RemoteError`s.
+ */
+export const defaultErrorRegistry = new ErrorRegistry()
+for (const errorClass of [
+  AuthorizationError,
+  CircuitOpenError,
+  EarlyDisposalError,
+  LocalityError,
+  SerializationError,
+  ShutdownError,
+  StubError,
+  TimeoutError,
+  TransportError,
+  UnresolvedPatternError,
+  ValidationError
+]) {
+  defaultErrorRegistry.register(errorClass)
+}
+
+/**
+ * Reconstruct an error received over a transport, with its cause chain.
+ * Errors whose code is registered are rehydrated as instances of the
+ * registered class, without running its constructor, with their fields
+ * restored from the marshalled error; others become `RemoteError`s.
+ */
+export function unmarshalError(
+  context: Context,
+  marshalled: MarshalledError,
+  registry: ErrorRegistry = defaultErrorRegistry
+): FerrerError {
+  const cause =
+    marshalled.cause === undefined
+      ? undefined
+      : unmarshalError(context, marshalled.cause, registry)
+  const errorClass = registry.get(marshalled.code)
+  if (errorClass === undefined) {
+    return new RemoteError(context, marshalled, { cause })
+  }
+  const err = Object.create(errorClass.prototype as object) as FerrerError
+  const data: Record<string, unknown> = marshalled.data ?? {}
+  for (const key of isPlainObject(data) ? Object.keys(data) : []) {
+    if (unsafeDataKeys.has(key)) continue
+    Object.defineProperty(err, key, {
+      value: data[key],
+      writable: true,
+      enumerable: true,
+      configurable: true
+    })
+  }
+  Object.assign(err, {
+    name: marshalled.name,
+    code: marshalled.code,
+    message: marshalled.message,
+    isTransient: marshalled.isTransient,
+    resolvedName: marshalled.resolvedName,
+    trace: marshalled.trace ?? context.trace.slice(),
+    stack: marshalled.stack ?? `${marshalled.name}: ${marshalled.message}`
+  })
+  if (cause !== undefined) err.cause = cause
+  return err
+}
@@ -1,5 +1,10 @@
-import type { Context } from "./core-types.js"
-import type { Name } from "./Name.js"
+import {
+  TraceEventType,
+  type Context,
+  type Name,
+  type TraceVector
+} from "./core-types.js"
+import type { MarshalledError } from "./error-marshalling.js"
 
 export function isTransientError(err: unknown): err is ErrorWithTransience {
   if (
@@ -23,9 +28,26 @@ export class FerrerError extends Error {
    * Is the error transient?
    */
   isTransient: boolean = false
+  /**
+   * Identifies the kind of error, including across domain boundaries, where
+   * it selects the class to rehydrate the error as. Defaults to the name of
+   * the class.
+   */
+  code: string
+  /** Resolved name of the atom whose context raised the error, if any. */
+  resolvedName?: Name
+  /** Trace of the context that raised the error. */
+  trace: TraceVector
 
-  constructor(_context: Context, message?: string) {
-    super(message)
+  constructor(context: Context, message?: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = new.target.name
+    this.code = new.target.name
+    this.trace = context.trace.slice()
+    const call = this.trace.findLast(
+      (event) => event[0] === TraceEventType.DOMAIN_CALL
+    )
+    this.resolvedName = call?.[1]
   }
 }
 
@@ -40,3 +62,211 @@ export class UnresolvedPatternError extends FerrerError {
 export class EarlyDisposalError extends FerrerError {
   override isTransient: boolean = false
 }
+
+/**
+ * Thrown when an atom call gives up after exhausting its retry policy.
+ * Carries every transient error encountered along the way, oldest first.
+ */
+export class RetriesExhaustedError extends FerrerError {
+  override isTransient: boolean = false
+  /** The transient errors that caused each failed attempt. */
+  readonly errors: unknown[]
+
+  constructor(context: Context, errors: unknown[]) {
+    super(
+      context,
+      [
+        `Retries exhausted after ${errors.length} attempt(s):`,
+        ...errors.map((err, i) => `  ${i + 1}. ${describeError(err)}`)
+      ].join("\n"),
+      { cause: errors.at(-1) }
+    )
+    this.errors = errors
+  }
+}
+
+function describeError(err: unknown): string {
+  return err instanceof Error ? `${err.name}: ${err.message}` : String(err)
+}
+
+/**
+ * Thrown when an atom call is aborted because it ran longer than its
+ * `timeout`. Timeouts are not retried.
+ */
+export class TimeoutError extends FerrerError {
+  override isTransient: boolean = false
+  /** The timeout that elapsed, in milliseconds. */
+  readonly timeout: number
+
+  constructor(context: Context, timeout: number) {
+    super(context, `Atom call timed out after ${timeout}ms`)
+    this.timeout = timeout
+  }
+}
+
+/**
+ * Thrown when the argument or result of an atom call does not match the
+ * schema attached to the atom's name.
+ */
+export class ValidationError extends FerrerError {
+  override isTransient: boolean = false
+  /** Whether the argument or the result was invalid. */
+  readonly target: "argument" | "result"
+  /** Descriptions of each way in which the value was invalid. */
+  readonly problems: string[]
+
+  constructor(
+    context: Context,
+    target: "argument" | "result",
+    problems: string[]
+  ) {
+    super(
+      context,
+      [`Invalid ${target}:`, ...problems.map((p) => `  ${p}`)].join("\n")
+    )
+    this.target = target
+    this.problems = problems
+  }
+}
+
+/**
+ * Thrown without attempting a call when the circuit breaker of the resolved
+ * element is open, and no other registration could be used instead.
+ */
+export class CircuitOpenError extends FerrerError {
+  override isTransient: boolean = false
+  /** The name whose breaker is open. */
+  override readonly resolvedName: Name
+
+  constructor(context: Context, resolvedName: Name) {
+    super(context, `Circuit breaker open for ${JSON.stringify(resolvedName)}`)
+    this.resolvedName = resolvedName
+  }
+}
+
+/**
+ * Thrown when a local name, which promises never to cross a domain boundary,
+ * is used at an `Ingress` or `Egress`.
+ */
+export class LocalityError extends FerrerError {
+  override isTransient: boolean = false
+
+  constructor(context: Context, name: Name) {
+    super(
+      context,
+      `Local name cannot cross a domain boundary: ${JSON.stringify(name)}`
+    )
+  }
+}
+
+/**
+ * Thrown when an `Ingress` policy denies the caller the use of a name.
+ */
+export class AuthorizationError extends FerrerError {
+  override isTransient: boolean = false
+  /** The pattern or name that was denied. */
+  readonly pattern: Name
+  /** The caller that was denied, if known. */
+  readonly principal?: string
+
+  constructor(context: Context, pattern: Name, principal?: string) {
+    super(
+      context,
+      `Access denied${
+        principal === undefined ? "" : ` for ${principal}`
+      } to ${JSON.stringify(pattern)}`
+    )
+    this.pattern = pattern
+    this.principal = principal
+  }
+}
+
+/**
+ * Thrown when the argument or result of a call crossing a domain boundary
+ * is not a `SerializableValue`.
+ */
+export class SerializationError extends FerrerError {
+  override isTransient: boolean = false
+  /** Whether the argument or the result was unserializable. */
+  readonly target: "argument" | "result"
+  /** Location of the offending value, e.g. `$.items[2]`. */
+  readonly path: string
+
+  constructor(
+    context: Context,
+    target: "argument" | "result",
+    path: string,
+    problem: string
+  ) {
+    super(context, `Unserializable ${target} at ${path}: ${problem}`)
+    this.target = target
+    this.path = path
+  }
+}
+
+/**
+ * Thrown by calls through the ingresses of a domain that is shutting down,
+ * and by its calls still in flight when the shutdown deadline passes.
+ * Transient, so that callers in other domains may resolve elsewhere.
+ */
+export class ShutdownError extends FerrerError {
+  override isTransient: boolean = true
+
+  constructor(context: Context) {
+    super(context, "Domain is shutting down")
+    this.isTransient = true
+  }
+}
+
+/**
+ * A failure of the transport between two domains, as opposed to an error
+ * raised by the remote atom itself.
+ */
+export class TransportError extends FerrerError {
+  constructor(context: Context, message: string, isTransient: boolean = true) {
+    super(context, message)
+    this.isTransient = isTransient
+  }
+}
+
+/**
+ * A failure raised on purpose by a stub from the testing toolkit. Stub
+ * failures are transient unless stated otherwise, so that they are retried.
+ */
+export class StubError extends FerrerError {
+  constructor(
+    context: Context,
+    message: string = "Stub failure",
+    isTransient: boolean = true
+  ) {
+    super(context, message)
+    this.isTransient = isTransient
+  }
+}
+
+/**
+ * An error that took place in another domain and was received over a
+ * transport, whose class is not registered to be rehydrated; see
+ * `unmarshalError`. Its code and transience are preserved, so retries work
+ * across boundaries, as are the originating resolved name and trace.
+ */
+export class RemoteError extends FerrerError {
+  /** Name of the original error class. */
+  readonly remoteName: string
+  /** Stack trace of the original error, if it was sent. */
+  readonly remoteStack?: string
+
+  constructor(
+    context: Context,
+    marshalled: MarshalledError,
+    options?: ErrorOptions
+  ) {
+    super(context, marshalled.message, options)
+    this.isTransient = marshalled.isTransient
+    this.code = marshalled.code
+    this.remoteName = marshalled.name
+    this.remoteStack = marshalled.stack
+    this.resolvedName = marshalled.resolvedName ?? this.resolvedName
+    this.trace = marshalled.trace ?? this.trace
+  }
+}
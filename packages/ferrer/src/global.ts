@@ -1,6 +1,13 @@
 import type { GenericObject } from "@ferrer/utils"
-import type { Atom, AtomFunction, Domain, TypedName } from "./core-types.js"
-import { BasicDomain } from "./provider.js"
+import type {
+  Atom,
+  AtomImplFunction,
+  BindMetadata,
+  Binding,
+  Domain,
+  TypedName
+} from "./core-types.js"
+import { BasicDomain, type ExternalizeOptions } from "./provider.js"
 
 const dom$ = Symbol.for("ferrer.global.domain")
 type GlobalWithState = typeof globalThis & { [dom$]: Domain }
@@ -11,11 +18,22 @@ if ((globalThis as GenericObject)[dom$] === undefined) {
   ;(globalThis as GenericObject)[dom$] = globalDomain
 }
 
+/**
+ * Replace the global domain for this runtime environment, returning the
+ * previous one; e.g. to give each test a fresh domain.
+ */
+export function setGlobalDomain(domain: Domain): Domain {
+  const previous = globalWithState[dom$]
+  globalWithState[dom$] = domain
+  return previous
+}
+
 export function bind<TArg, TResult>(
   name: TypedName<TArg, TResult>,
-  method: NoInfer<AtomFunction<TArg, TResult>>
-): void {
-  return globalWithState[dom$].bind<TArg, TResult>(name, method)
+  method: NoInfer<AtomImplFunction<TArg, TResult>>,
+  metadata?: BindMetadata
+): Binding {
+  return globalWithState[dom$].bind<TArg, TResult>(name, method, metadata)
 }
 
 /**
@@ -23,10 +41,11 @@ export function bind<TArg, TResult>(
  * domain for this runtime environment.
  */
 export function external<TArg, TResult>(
-  pattern: TypedName<TArg, TResult>
+  pattern: TypedName<TArg, TResult>,
+  options?: ExternalizeOptions
 ): Atom<TArg, TResult> {
   return (globalWithState[dom$] as BasicDomain).localIngress.externalize<
     TArg,
     TResult
-  >(pattern)
+  >(pattern, options)
 }
@@ -0,0 +1,110 @@
+import {
+  name,
+  type Element,
+  type HealthReport,
+  type HealthState,
+  type HealthStatus,
+  type Name,
+  type Registration
+} from "./core-types.js"
+import { reservedNamePrefix } from "./introspection.js"
+
+/** Names of the built-in health atoms. */
+export const HealthNames = {
+  /**
+   * Check the health of the domain's elements, optionally only those whose
+   * names match `pattern`; see `BasicDomain.checkHealth`.
+   */
+  report: name<{ pattern?: Name } | undefined, HealthReport>({
+    svc: `${reservedNamePrefix}health`,
+    op: "report"
+  })
+}
+
+const severity: Record<HealthState, number> = {
+  healthy: 0,
+  degraded: 1,
+  unhealthy: 2
+}
+
+/**
+ * Runs the health checks of a domain's elements and remembers their last
+ * known status, so that resolvers can skip unhealthy elements without
+ * waiting on a check.
+ */
+export class HealthMonitor {
+  /** Milliseconds after which a pending check counts as unhealthy. */
+  readonly timeout: number
+  /** Internal: last known status of each checked element. */
+  _statuses = new WeakMap<Element, HealthStatus>()
+
+  constructor(timeout: number = 5000) {
+    this.timeout = timeout
+  }
+
+  /** The status `element` last reported, if it has been checked. */
+  statusOf(element: Element): HealthStatus | undefined {
+    return this._statuses.get(element)
+  }
+
+  /** Whether `element` was not reported unhealthy when last checked. */
+  isHealthy(element: Element): boolean {
+    return this._statuses.get(element)?.state !== "unhealthy"
+  }
+
+  /**
+   * Run the health check of `element`, if it has one. Checks that throw or
+   * time out count as unhealthy.
+   */
+  async checkElement(element: Element): Promise<HealthStatus | undefined> {
+    if (element.checkHealth === undefined) return undefined
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let status: HealthStatus
+    try {
+      status = await Promise.race([
+        element.checkHealth(),
+        new Promise<HealthStatus>((resolve) => {
+          timer = setTimeout(() => {
+            resolve({
+              state: "unhealthy",
+              detail: `Health check timed out after ${this.timeout}ms`
+            })
+          }, this.timeout)
+        })
+      ])
+    } catch (err) {
+      status = {
+        state: "unhealthy",
+        detail: err instanceof Error ? err.message : String(err)
+      }
+    } finally {
+      clearTimeout(timer)
+    }
+    this._statuses.set(element, status)
+    return status
+  }
+
+  /**
+   * Check the elements of `registrations` concurrently, aggregating the
+   * results of those that have health checks.
+   */
+  async check(registrations: Registration[]): Promise<HealthReport> {
+    const checked = await Promise.all(
+      registrations.map(async ({ name, element }) => {
+        const status = await this.checkElement(element)
+        return status && { name, ...status }
+      })
+    )
+    const elements = checked.filter((health) => health !== undefined)
+    const state = elements.reduce<HealthState>(
+      (worst, { state }) => (severity[state] > severity[worst] ? state : worst),
+      "healthy"
+    )
+    return {
+      state,
+      ready: state !== "unhealthy",
+      checkedAt: Date.now(),
+      elements
+    }
+  }
+}
@@ -1,13 +1,40 @@
 // ERM polyfills
 import "./erm.js"
 
+export * from "./authorization.js"
+export * from "./circuit-breaker.js"
 export * from "./core-types.js"
+export * from "./error-marshalling.js"
+export * from "./errors.js"
 export * from "./global.js"
+export * from "./health.js"
+export * from "./indexed-registry.js"
+export * from "./interceptors.js"
+export * from "./introspection.js"
+export * from "./logging.js"
+export * from "./object-hash.js"
 export * from "./pattern-matching.js"
+export * from "./pool.js"
 export * from "./provider.js"
+export * from "./resolution-strategies.js"
+export * from "./result-cache.js"
+export * from "./retry-controller.js"
+export * from "./serializable.js"
+export * from "./spans.js"
+export * from "./streams.js"
+export * from "./transports/http.js"
+export * from "./transports/message-port.js"
+export * from "./validation.js"
 
-import { local_name, name, untyped_name } from "./core-types.js"
+import { local_name, name, stream_name, untyped_name } from "./core-types.js"
 import { bind, external } from "./global.js"
 
-export const ferrer = { bind, external, untyped_name, name, local_name }
+export const ferrer = {
+  bind,
+  external,
+  untyped_name,
+  name,
+  local_name,
+  stream_name
+}
 export default ferrer
@@ -0,0 +1,106 @@
+import {
+  isSerializablePrimitive,
+  type SerializablePrimitive
+} from "@ferrer/utils"
+import type {
+  BindMetadata,
+  Element,
+  Name,
+  Registration,
+  Registry
+} from "./core-types.js"
+import { hashName } from "./object-hash.js"
+import { matches } from "./pattern-matching.js"
+
+/**
+ * A `Registry` that indexes registrations by the primitive values of their
+ * top-level name fields, such as `svc` or `method`, so that resolving a
+ * pattern only tests the registrations sharing one of its field values.
+ * Patterns without primitive top-level fields fall back to a full scan.
+ *
+ * Results are identical to those of `BasicRegistry`, including their order.
+ */
+export class IndexedRegistry implements Registry {
+  /** Internal: all registrations, in registration order. */
+  _registrations: Registration[] = []
+  /** Internal: registrations by top-level field, then by field value. */
+  _fieldIndex = new Map<string, Map<SerializablePrimitive, Registration[]>>()
+  /** Internal: registrations by `hashName` of their name. */
+  _nameIndex = new Map<string, Registration[]>()
+
+  match(pattern: Name): Registration[] {
+    let candidates: Registration[] | undefined
+    for (const key in pattern) {
+      const value = pattern[key]
+      if (!isSerializablePrimitive(value)) continue
+      const bucket = this._fieldIndex.get(key)?.get(value)
+      if (bucket === undefined) return []
+      if (candidates === undefined || bucket.length < candidates.length) {
+        candidates = bucket
+      }
+    }
+    return (candidates ?? this._registrations).filter((reg) =>
+      matches(reg.name, pattern)
+    )
+  }
+
+  /** Find the registrations whose names are exactly equal to `name`. */
+  lookup(name: Name): Registration[] {
+    return (this._nameIndex.get(hashName(name)) ?? []).slice()
+  }
+
+  register(
+    name: Name,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    element: Element<any, any>,
+    metadata: BindMetadata = {}
+  ) {
+    const registration: Registration = { name, element, metadata }
+    this._registrations.push(registration)
+    for (const key in name) {
+      const value = name[key]
+      if (!isSerializablePrimitive(value)) continue
+      let values = this._fieldIndex.get(key)
+      if (values === undefined) {
+        values = new Map()
+        this._fieldIndex.set(key, values)
+      }
+      pushTo(values, value, registration)
+    }
+    pushTo(this._nameIndex, hashName(name), registration)
+    return registration
+  }
+
+  unregister(registration: Registration): boolean {
+    if (!removeFrom(this._registrations, registration)) return false
+    const { name } = registration
+    for (const key in name) {
+      const value = name[key]
+      if (!isSerializablePrimitive(value)) continue
+      const values = this._fieldIndex.get(key)
+      if (values !== undefined) deleteFrom(values, value, registration)
+    }
+    deleteFrom(this._nameIndex, hashName(name), registration)
+    return true
+  }
+}
+
+function pushTo<K, V>(map: Map<K, V[]>, key: K, value: V) {
+  const list = map.get(key)
+  if (list === undefined) map.set(key, [value])
+  else list.push(value)
+}
+
+function deleteFrom<K, V>(map: Map<K, V[]>, key: K, value: V) {
+  const list = map.get(key)
+  if (list === undefined) return
+  removeFrom(list, value)
+  if (list.length === 0) map.delete(key)
+}
+
+function removeFrom<V>(list: V[], value: V): boolean {
+  const index = list.indexOf(value)
+  if (index < 0) return false
+  list.splice(index, 1)
+  return true
+}
@@ -0,0 +1,26 @@
+import type { Invocation, InterceptorRegistration } from "./core-types.js"
+import { matches } from "./pattern-matching.js"
+
+/**
+ * Run an atom call through the interceptors whose scope covers it, in
+ * order, so that the first interceptor is outermost. `invoke` makes the
+ * call itself once every interceptor has passed it on.
+ */
+export function runInterceptors(
+  registrations: readonly InterceptorRegistration[],
+  invocation: Invocation,
+  invoke: (arg: unknown) => Promise<unknown>
+): Promise<unknown> {
+  const applicable = registrations.filter(
+    ({ pattern, direction }) =>
+      (direction === undefined || direction === invocation.direction) &&
+      (pattern === undefined || matches(invocation.name, pattern))
+  )
+  const dispatch = (index: number, arg: unknown): Promise<unknown> => {
+    if (index === applicable.length) return invoke(arg)
+    return applicable[index].interceptor({ ...invocation, arg }, (...args) =>
+      dispatch(index + 1, args.length > 0 ? args[0] : arg)
+    )
+  }
+  return dispatch(0, invocation.arg)
+}
@@ -0,0 +1,137 @@
+import {
+  isLocalName,
+  name,
+  type DomainDescription,
+  type Name,
+  type Registration,
+  type RegistrationInfo,
+  type Resolution,
+  type ResolutionExplanation
+} from "./core-types.js"
+import type { BasicDomain } from "./provider.js"
+
+/**
+ * Prefix of the `svc` of the names of built-in atoms, which is reserved for
+ * this package.
+ */
+export const reservedNamePrefix = "ferrer."
+
+/** Names of the built-in introspection atoms. */
+export const IntrospectionNames = {
+  /** Describe the contents of the domain; see `BasicDomain.describe`. */
+  describe: name<undefined, DomainDescription>({
+    svc: `${reservedNamePrefix}introspection`,
+    op: "describe"
+  }),
+  /** Dry-run the resolution of a pattern; see `BasicDomain.explain`. */
+  explain: name<{ pattern: Name }, ResolutionExplanation>({
+    svc: `${reservedNamePrefix}introspection`,
+    op: "explain"
+  })
+}
+
+/** Whether `name` is reserved for the built-in atoms of this package. */
+export function isReservedName(name: Name): boolean {
+  return typeof name.svc === "string" && name.svc.startsWith(reservedNamePrefix)
+}
+
+/** Describe a registration of `domain` in serializable form. */
+export function describeRegistration(
+  domain: BasicDomain,
+  registration: Registration
+): RegistrationInfo {
+  const { priority, cache } = registration.metadata
+  return {
+    name: registration.name,
+    elementKind: registration.element.constructor.name,
+    metadata: {
+      ...(priority !== undefined && { priority }),
+      ...(cache && {
+        cache: {
+          ttl: cache.ttl,
+          ...(cache.maxSize !== undefined && { maxSize: cache.maxSize })
+        }
+      })
+    },
+    available: domain.circuitBreakers?.isAvailable(registration.name) ?? true
+  }
+}
+
+/** Take a snapshot of the contents of `domain`. */
+export function describeDomain(domain: BasicDomain): DomainDescription {
+  return {
+    registrations: domain.registry
+      .match({})
+      .map((registration) => describeRegistration(domain, registration)),
+    ingresses: domain.ingresses.map(({ policies, defaultEffect }) => ({
+      policies: policies.length,
+      defaultEffect
+    })),
+    egresses: domain.egresses.map((egress) => ({
+      kind: egress.constructor.name
+    })),
+    lifecycles: Array.from(domain.lifecycles, (lifecycle) =>
+      lifecycle.inspect()
+    ),
+    hasParent: domain.parent !== undefined
+  }
+}
+
+/**
+ * Work out where `domain` would resolve `pattern` from, in the same order as
+ * `DomainResolver`, previewing registries so as not to advance strategies
+ * such as round robin. Egresses have no preview, so they are asked.
+ */
+async function previewResolution(
+  domain: BasicDomain,
+  pattern: Name
+): Promise<[Resolution, "local" | "parent" | "egress"] | undefined> {
+  const local = domain.internalResolver.preview?.(pattern)
+  if (local !== undefined) return [local, "local"]
+  if (domain.parent !== undefined) {
+    const inherited = await previewResolution(domain.parent, pattern)
+    if (inherited !== undefined) return [inherited[0], "parent"]
+  }
+  if (isLocalName(pattern)) return undefined
+  for (const egress of domain.egresses) {
+    const remote = await egress.resolve(pattern)
+    if (remote !== undefined) return [remote, "egress"]
+  }
+  return undefined
+}
+
+/**
+ * Dry-run the resolution of `pattern` in `domain`, in the same order as
+ * `DomainResolver`, reporting the domain's own matching registrations and
+ * which name would be picked from where. No atom is called and no
+ * strategy's state is changed, though egresses may be asked to resolve the
+ * pattern.
+ */
+export async function explainResolution(
+  domain: BasicDomain,
+  pattern: Name
+): Promise<ResolutionExplanation> {
+  const explanation: ResolutionExplanation = {
+    pattern,
+    matches: domain.registry
+      .match(pattern)
+      .map((registration) => describeRegistration(domain, registration))
+  }
+  const previewed = await previewResolution(domain, pattern)
+  if (previewed === undefined) return explanation
+  const [{ name }, source] = previewed
+  return { ...explanation, selected: name, source }
+}
+
+/**
+ * Bind the built-in introspection atoms in `domain`, so that remote tooling
+ * can query it through its ingresses, subject to their policies.
+ */
+export function bindIntrospection(domain: BasicDomain) {
+  domain._bind(IntrospectionNames.describe, () =>
+    Promise.resolve(describeDomain(domain))
+  )
+  domain._bind(IntrospectionNames.explain, (_context, { pattern }) =>
+    explainResolution(domain, pattern)
+  )
+}
@@ -1,32 +1,82 @@
+import { CancellationScope, earliestTimeout } from "./cancellation.js"
 import {
   TraceEventType,
   type AtomImpl,
+  type CallOptions,
   type Context,
+  type ContextMetadata,
   type Domain,
   type Element,
-  type Name
+  type FindOptions,
+  type InvocationDirection,
+  type LifecycleInfo,
+  type Name,
+  type Span,
+  type SpanContext,
+  type TraceVector,
+  type TrackedLifecycle
 } from "./core-types.js"
 import {
+  CircuitOpenError,
   EarlyDisposalError,
-  UnresolvedPatternError,
-  isTransientError
+  UnresolvedPatternError
 } from "./errors.js"
+import { runInterceptors } from "./interceptors.js"
 import { RetryController } from "./retry-controller.js"
+import { endSpan, startSpan } from "./spans.js"
+import { checkSchema } from "./validation.js"
 
 function safeDispose(context: Context, disposable: Disposable) {
   try {
     disposable[Symbol.dispose]()
   } catch (err) {
-    // TODO: log
+    context.log.warn({ err }, "Failed to dispose atom implementation")
+  }
+}
+
+/**
+ * Dispose an atom implementation, asynchronously if it supports it. Shared
+ * by the elements that wrap the atom implementations of others.
+ */
+export async function disposeAtomImpl(
+  disposable: Partial<Disposable & AsyncDisposable>
+): Promise<void> {
+  const disposeAsync = disposable[Symbol.asyncDispose]
+  if (disposeAsync !== undefined) await disposeAsync.call(disposable)
+  else disposable[Symbol.dispose]?.()
+}
+
+/**
+ * Dispose an atom implementation, asynchronously if it supports it,
+ * returning the failure, if any.
+ */
+async function safeDisposeAsync(
+  context: Context,
+  disposable: Disposable & Partial<AsyncDisposable>
+): Promise<unknown[]> {
+  try {
+    await disposeAtomImpl(disposable)
+    return []
+  } catch (err) {
+    context.log.warn({ err }, "Failed to dispose atom implementation")
+    return [err]
   }
 }
 
 class LifecycleCache {
   #element?: Element
+  #sticky = true
   #atomImpl?: AtomImpl<unknown, unknown>
+  #unwatch?: () => void
+  /** Number of calls using each atom implementation. */
+  #users = new Map<AtomImpl<unknown, unknown>, number>()
+  /** Disposals deferred until an atom implementation is no longer in use. */
+  #whenUnused = new Map<AtomImpl<unknown, unknown>, () => void>()
+  domain: Domain
   context: Context
 
-  constructor(context: Context) {
+  constructor(domain: Domain, context: Context) {
+    this.domain = domain
     this.context = context
   }
 
@@ -36,19 +86,104 @@ class LifecycleCache {
   getCachedAtomImpl() {
     return this.#atomImpl
   }
-  replaceCachedElement(element: Element | undefined) {
+  /** Whether the cached element may be kept for later calls. */
+  isSticky() {
+    return this.#sticky
+  }
+  /**
+   * @param watched The element whose unbinding invalidates the cache, if not
+   * `element` itself.
+   * @param sticky Whether the element may be kept for later calls.
+   */
+  replaceCachedElement(
+    element: Element | undefined,
+    watched: Element | undefined = element,
+    sticky = true
+  ) {
     this.replaceCachedAtomImpl(undefined)
+    this.#unwatch?.()
+    this.#unwatch = undefined
     this.#element = element
+    this.#sticky = sticky
+    if (watched !== undefined) {
+      // Unbinding the element invalidates the cache, forcing re-resolution
+      this.#unwatch = this.domain.watchElement(watched, () => {
+        this.clearCache()
+      })
+    }
   }
+  /**
+   * Replace the cached atom implementation. The previous one is disposed
+   * once no call is using it, so that the failure of one call does not pull
+   * it out from under others in flight.
+   */
   replaceCachedAtomImpl(atomImpl: AtomImpl<unknown, unknown> | undefined) {
-    if (this.#atomImpl) {
-      safeDispose(this.context, this.#atomImpl)
-    }
+    const previous = this.#atomImpl
     this.#atomImpl = atomImpl
+    if (previous !== undefined && previous !== atomImpl) {
+      this.#afterUse(previous, () => {
+        safeDispose(this.context, previous)
+      })
+    }
+  }
+  /**
+   * Mark `atomImpl` as used by a call until the returned function is
+   * called, deferring its disposal until then.
+   */
+  useAtomImpl(atomImpl: AtomImpl<unknown, unknown>): () => void {
+    this.#users.set(atomImpl, (this.#users.get(atomImpl) ?? 0) + 1)
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      const users = (this.#users.get(atomImpl) ?? 1) - 1
+      if (users > 0) {
+        this.#users.set(atomImpl, users)
+        return
+      }
+      this.#users.delete(atomImpl)
+      const dispose = this.#whenUnused.get(atomImpl)
+      this.#whenUnused.delete(atomImpl)
+      dispose?.()
+    }
   }
   clearCache() {
     this.replaceCachedElement(undefined)
   }
+  /**
+   * Clear the cache, awaiting the disposal of the atom implementation once
+   * no call is using it, or straight away if `force` is set.
+   */
+  async clearCacheAsync(force = false): Promise<unknown[]> {
+    const atomImpl = this.#atomImpl
+    this.#atomImpl = undefined
+    this.clearCache()
+    if (atomImpl === undefined) return []
+    if (!force) {
+      await new Promise<void>((resolve) => {
+        this.#afterUse(atomImpl, resolve)
+      })
+    }
+    return await safeDisposeAsync(this.context, atomImpl)
+  }
+  /** Run `dispose` now, or once no call is using `atomImpl`. */
+  #afterUse(atomImpl: AtomImpl<unknown, unknown>, dispose: () => void) {
+    if (this.#users.has(atomImpl)) this.#whenUnused.set(atomImpl, dispose)
+    else dispose()
+  }
+}
+
+/** Options for a single `Lifecycle.run`. */
+type RunOptions = CallOptions & {
+  /**
+   * Base trace vector for this call, if it continues a trace other than that
+   * of the lifecycle's context.
+   */
+  trace?: TraceVector
+  /** Span of the caller, if other than that of the lifecycle's context. */
+  parentSpan?: SpanContext
+  /** Metadata of the caller, if other than that of the lifecycle's context. */
+  metadata?: ContextMetadata
 }
 
 /**
@@ -56,7 +191,7 @@ class LifecycleCache {
  * Exactly one `Lifecycle` exists for each acquired `Atom`, whereas a new
  * `Context` is generated every time an atom is called.
  */
-export class Lifecycle {
+export class Lifecycle implements TrackedLifecycle {
   /** Domain within which the lifecycle of this resource will be contained. */
   readonly domain: Domain
   /** Pattern requested by the consumer of the resource. */
@@ -65,31 +200,161 @@ export class Lifecycle {
   resolvedName?: Name
   /** Context in which this atom will be executed. */
   readonly context: Context
+  /** Per-atom options, including overrides of the domain's retry policy. */
+  readonly options: FindOptions
+  /** Whether calls come from within the domain or through an `Ingress`. */
+  readonly direction: InvocationDirection
   disposed = false
   cache: LifecycleCache
+  /** Internal: stops the domain tracking this lifecycle. */
+  _untrack?: () => void
+  /** Internal: calls in flight. */
+  _inFlight = new Set<Promise<unknown>>()
 
-  constructor(domain: Domain, pattern: Name, context: Context) {
+  constructor(
+    domain: Domain,
+    pattern: Name,
+    context: Context,
+    options: FindOptions = {},
+    direction: InvocationDirection = "outbound"
+  ) {
     this.domain = domain
     this.pattern = pattern
     this.context = context
-    this.cache = new LifecycleCache(context)
+    this.options = options
+    this.direction = direction
+    this.cache = new LifecycleCache(domain, context)
+    this._untrack = domain.trackLifecycle?.(this)
   }
 
   dispose(): void {
     this.disposed = true
     this.cache.clearCache()
+    this._untrack?.()
+  }
+
+  /**
+   * Dispose the lifecycle like `dispose`, but await the disposal of the
+   * cached atom implementation, returning any failures, which are logged.
+   *
+   * @param force Whether to dispose the implementation even if calls that
+   * were abandoned, e.g. at a shutdown deadline, are still using it.
+   */
+  async disposeAsync(force = false): Promise<unknown[]> {
+    this.disposed = true
+    this._untrack?.()
+    return await this.cache.clearCacheAsync(force)
+  }
+
+  /** Wait until no call is in flight, including calls made meanwhile. */
+  async drain(): Promise<void> {
+    while (this._inFlight.size > 0) {
+      await Promise.allSettled(this._inFlight)
+    }
+  }
+
+  inspect(): LifecycleInfo {
+    const element = this.cache.getCachedElement()
+    return {
+      pattern: this.pattern,
+      direction: this.direction,
+      ...(element && { resolvedName: element.name }),
+      hasAtomImpl: this.cache.getCachedAtomImpl() !== undefined
+    }
   }
 
   isDisposed(): boolean {
     return this.disposed
   }
 
-  async run(arg: unknown): Promise<unknown> {
-    const retryController = new RetryController()
+  /**
+   * Invoke the atom with the given argument, resolving and retrying as needed.
+   * The call is aborted when the lifecycle's context, the atom or the call
+   * itself is cancelled or times out, or the domain's shutdown deadline
+   * passes; aborted calls are never retried.
+   * The call, including any retries, is recorded as a single span.
+   */
+  async run(arg: unknown, options: RunOptions = {}): Promise<unknown> {
+    const call = this._runSpan(arg, options)
+    this._inFlight.add(call)
+    try {
+      return await call
+    } finally {
+      this._inFlight.delete(call)
+    }
+  }
+
+  /** Internal: make a call, recording it as a span. */
+  async _runSpan(arg: unknown, options: RunOptions): Promise<unknown> {
+    const span = startSpan(
+      this.pattern,
+      options.parentSpan ?? this.context.span
+    )
+    try {
+      const result = await this._runAttempts(arg, options, span)
+      endSpan(this.domain, span)
+      return result
+    } catch (err) {
+      endSpan(this.domain, span, err)
+      throw err
+    }
+  }
+
+  /**
+   * Internal: make a call to the element named `name` if its circuit
+   * breaker admits it, reporting the outcome to the breaker.
+   *
+   * @throws CircuitOpenError If the breaker refuses the call.
+   */
+  async _callThroughBreaker(
+    context: Context,
+    name: Name,
+    call: () => Promise<unknown>
+  ): Promise<unknown> {
+    const breakers = this.domain.circuitBreakers
+    if (breakers === undefined) return await call()
+    const circuit = breakers.admit(name)
+    if (circuit === undefined) throw new CircuitOpenError(context, name)
+    try {
+      const result = await call()
+      circuit.succeeded()
+      return result
+    } catch (err) {
+      if (context.signal?.aborted === true) {
+        circuit.abandoned()
+      } else {
+        circuit.failed(err)
+      }
+      throw err
+    }
+  }
+
+  /** Internal: make attempts at a call until it succeeds or gives up. */
+  async _runAttempts(
+    arg: unknown,
+    options: RunOptions,
+    span: Span
+  ): Promise<unknown> {
+    const trace = options.trace ?? this.context.trace
+    const retryController = new RetryController(
+      this.domain.retryPolicy,
+      this.options.retry
+    )
+    using scope = new CancellationScope(
+      this.context,
+      [
+        this.context.signal,
+        this.options.signal,
+        options.signal,
+        this.domain.shutdownSignal
+      ],
+      earliestTimeout(this.options.timeout, options.timeout)
+    )
+    const signal = scope.signal
 
     while (retryController.shouldRetry()) {
       // Retry backoff
-      await retryController.delay()
+      await retryController.delay(signal)
 
       // Check for early disposal
       if (this.isDisposed()) {
@@ -100,9 +365,24 @@ export class Lifecycle {
         // Resolution of element
         // Check cache
         let element = this.cache.getCachedElement()
+        if (
+          element !== undefined &&
+          (!this.cache.isSticky() ||
+            this.domain.circuitBreakers?.isAvailable(element.name) === false)
+        ) {
+          // Resolve again for each call where the strategy balances load, and
+          // give other matches a chance while the element's breaker is open
+          this.cache.clearCache()
+          element = undefined
+        }
         if (element === undefined) {
           // Resolve
-          const resolution = await this.context.resolver.resolve(this.pattern)
+          const resolution = await scope.race(
+            this.context.resolver.resolve(
+              this.pattern,
+              options.metadata ?? this.context.metadata
+            )
+          )
           if (resolution === undefined) {
             throw new UnresolvedPatternError(this.context, this.pattern)
           }
@@ -112,14 +392,42 @@ export class Lifecycle {
           }
           // Resolve succeeded
           element = resolution.element
-          this.cache.replaceCachedElement(element)
+          this.cache.replaceCachedElement(
+            element,
+            resolution.registration?.element,
+            resolution.sticky
+          )
         }
 
+        this.resolvedName = element.name
+        span.resolvedName = element.name
+
+        const executionContext = this.domain.createContext(
+          this.context,
+          undefined,
+          trace.concat([[TraceEventType.DOMAIN_CALL, element.name]]),
+          signal,
+          span,
+          options.metadata
+        )
+
         // Obtain implementation
         let atomImpl = this.cache.getCachedAtomImpl()
         if (atomImpl === undefined) {
-          // Get impl from element
-          atomImpl = await element.getAtom(this.pattern, this.context)
+          // Get impl from element, under the call's cancellation scope
+          const acquiring = element.getAtom(this.pattern, executionContext)
+          try {
+            atomImpl = await scope.race(acquiring)
+          } catch (err) {
+            // An impl arriving after the call was aborted must be disposed
+            void acquiring.then(
+              (late) => {
+                safeDispose(this.context, late)
+              },
+              () => {}
+            )
+            throw err
+          }
           // Check for early disposal
           if (this.isDisposed()) {
             // Because we acquired a new atomImpl, we must dispose it
@@ -130,35 +438,56 @@ export class Lifecycle {
         }
 
         // Execute
-        const executionContext = this.domain.createContext(
-          this.context,
-          undefined,
-          this.context.trace.concat([
-            [TraceEventType.DOMAIN_CALL, element.name]
-          ])
+        const { name } = element
+        const impl = atomImpl
+        // The impl is in use until the call settles, even if it is aborted
+        const release = this.cache.useAtomImpl(impl)
+        const running = runInterceptors(
+          this.domain.interceptors ?? [],
+          {
+            context: executionContext,
+            name,
+            pattern: this.pattern,
+            arg,
+            direction: this.direction
+          },
+          async (finalArg) => {
+            checkSchema(executionContext, name, "argument", finalArg)
+            const finalResult = await this._callThroughBreaker(
+              executionContext,
+              name,
+              () => impl(executionContext, finalArg)
+            )
+            checkSchema(executionContext, name, "result", finalResult)
+            return finalResult
+          }
         )
-        const result = await atomImpl(executionContext, arg)
+        void running.then(release, release)
+        const result = await scope.race(running)
 
-        // JIT disposal; okay since we have already completed the atom invocation
+        // JIT disposal; deferred until no other call is using the impl
         if (this.isDisposed()) {
           this.cache.replaceCachedAtomImpl(undefined)
         }
 
         return result
       } catch (err) {
+        // Cancellation is final, and says nothing about the cached atom
+        if (signal?.aborted === true) throw err
         // Any error invalidates the cache
         this.cache.clearCache()
         // A transient error triggers a retry
-        if (isTransientError(err)) {
+        if (retryController.isTransient(err)) {
           retryController.transientError(err)
           continue
         }
         // A non-transient error is rethrown to the caller.
+        throw err
       }
     }
 
     // Out of retries; create a non-transient error that combines
     // all the transient errors that took place during the retry process.
-    throw retryController.combinedError()
+    throw retryController.combinedError(this.context)
   }
 }
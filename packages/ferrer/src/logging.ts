@@ -0,0 +1,202 @@
+import type { LogLevel, Logging, LoggingFunction, Name } from "./core-types.js"
+import { matches } from "./pattern-matching.js"
+
+/** All log levels, from most to least severe. */
+export const logLevels: readonly LogLevel[] = [
+  "fatal",
+  "error",
+  "warn",
+  "info",
+  "debug",
+  "trace"
+]
+
+/** Whether a message at `level` passes a filter at `threshold`. */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return logLevels.indexOf(level) <= logLevels.indexOf(threshold)
+}
+
+/** Sets the log level of contexts running atoms whose names match `pattern`. */
+export type LogLevelRule = {
+  pattern: Name
+  level: LogLevel
+}
+
+/**
+ * The log level for contexts running the atom named `name`: that of the
+ * first rule whose pattern matches, or `defaultLevel` if none does.
+ */
+export function logLevelFor(
+  rules: readonly LogLevelRule[],
+  name: Name | undefined,
+  defaultLevel: LogLevel
+): LogLevel {
+  if (name === undefined) return defaultLevel
+  return (
+    rules.find((rule) => matches(name, rule.pattern))?.level ?? defaultLevel
+  )
+}
+
+type LogArgs = [tagsOrMessage: object | string, ...rest: unknown[]]
+
+/** Split the arguments of a `LoggingFunction` into tags and the rest. */
+function splitArgs(
+  args: LogArgs
+): [tags: object, message: string, ...rest: unknown[]] {
+  const [first, ...rest] = args
+  if (typeof first === "string") return [{}, first, ...rest]
+  const [message, ...params] = rest
+  return [first, String(message), ...params]
+}
+
+/**
+ * Build a `Logging` whose functions all go through `log`, with the tags
+ * and level of each message made explicit.
+ */
+function createLogging(
+  log: (level: LogLevel, tags: object, message: string, rest: unknown[]) => void
+): Logging {
+  const fn =
+    (level: LogLevel): LoggingFunction =>
+    (...args: LogArgs) => {
+      const [tags, message, ...rest] = splitArgs(args)
+      log(level, tags, message, rest)
+    }
+  return {
+    fatal: fn("fatal"),
+    error: fn("error"),
+    warn: fn("warn"),
+    info: fn("info"),
+    debug: fn("debug"),
+    trace: fn("trace")
+  }
+}
+
+/**
+ * A logging backend writing to the `console`. Tags, when there are any, are
+ * passed after the message and its parameters.
+ */
+export function createConsoleLogger(): Logging {
+  return createLogging((level, tags, message, rest) => {
+    const params = Object.keys(tags).length > 0 ? [...rest, tags] : rest
+    switch (level) {
+      case "fatal":
+      case "error":
+        // eslint-disable-next-line no-console
+        console.error(message, ...params)
+        break
+      case "warn":
+        // eslint-disable-next-line no-console
+        console.warn(message, ...params)
+        break
+      case "info":
+        // eslint-disable-next-line no-console
+        console.info(message, ...params)
+        break
+      case "debug":
+      case "trace":
+        // eslint-disable-next-line no-console
+        console.debug(message, ...params)
+        break
+    }
+  })
+}
+
+/** Render a parameter of a log message for `%s` or `%o` and the like. */
+function formatParam(param: unknown): string {
+  if (typeof param === "string") return param
+  if (param instanceof Error) return param.stack ?? String(param)
+  if (typeof param === "object" && param !== null) {
+    try {
+      return JSON.stringify(param)
+    } catch {
+      return String(param)
+    }
+  }
+  return String(param)
+}
+
+/**
+ * Format `message` printf-style with `params`, as `console` does: `%s`,
+ * `%d`, `%i`, `%f`, `%j`, `%o`, `%O` and `%%` are substituted, and any
+ * params left over are appended, separated by spaces.
+ */
+function formatMessage(message: string, params: unknown[]): string {
+  let next = 0
+  const formatted = message.replace(/%[sdifjoO%]/g, (directive) => {
+    if (directive === "%%") return "%"
+    if (next >= params.length) return directive
+    const param = params[next++]
+    switch (directive) {
+      case "%d":
+        return String(Number(param))
+      case "%i":
+        return String(Math.trunc(Number(param)))
+      case "%f":
+        return String(parseFloat(String(param)))
+      default:
+        return formatParam(param)
+    }
+  })
+  return [formatted, ...params.slice(next).map(formatParam)].join(" ")
+}
+
+/**
+ * Render the values of log tags as JSON: errors keep their name, message,
+ * stack and code, and bigints become strings.
+ */
+function jsonTagReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString()
+  if (value instanceof Error) {
+    const { code } = value as Error & { code?: unknown }
+    return {
+      name: value.name,
+      message: value.message,
+      stack: value.stack,
+      ...(code !== undefined && { code })
+    }
+  }
+  return value
+}
+
+/**
+ * A logging backend writing one JSON object per line to `write`, with the
+ * time, level, tags, and message (formatted printf-style with its
+ * parameters) of each message. To log to standard output under Node, pass
+ * `(line) => process.stdout.write(line)`. Tags that cannot be rendered as
+ * JSON, e.g. cyclic ones, are dropped from the line in favour of a note
+ * saying why, so that logging never throws.
+ */
+export function createJsonLinesLogger(write: (line: string) => void): Logging {
+  return createLogging((level, tags, message, rest) => {
+    const time = new Date().toISOString()
+    const msg = formatMessage(message, rest)
+    let line: string
+    try {
+      line = JSON.stringify({ time, level, ...tags, msg }, jsonTagReplacer)
+    } catch (err) {
+      line = JSON.stringify({
+        time,
+        level,
+        msg,
+        tagsError: `Unserializable tags: ${String(err)}`
+      })
+    }
+    write(line + "\n")
+  })
+}
+
+/**
+ * Wrap a logging backend so that every message carries the given tags,
+ * ahead of its own, and messages less severe than `level` are dropped.
+ */
+export function createTaggedLogger(
+  backend: Logging,
+  tags: object,
+  level: LogLevel
+): Logging {
+  return createLogging((messageLevel, messageTags, message, rest) => {
+    if (!isLevelEnabled(messageLevel, level)) return
+    backend[messageLevel]({ ...tags, ...messageTags }, message, ...rest)
+  })
+}
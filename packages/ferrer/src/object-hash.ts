@@ -1,15 +1,28 @@
-import { isPlainObject } from "@ferrer/utils"
+import { isPlainObject, type GenericObject } from "@ferrer/utils"
 import { type Name } from "./core-types.js"
 
-export function hashName(name: Name): string {
-  return JSON.stringify(name, (_, val) =>
+/**
+ * Compute a canonical string key for a JSON-serializable value, which is
+ * identical for values that are deeply equal regardless of the order of the
+ * keys of their objects.
+ */
+export function hashValue(value: unknown): string {
+  return JSON.stringify(value, (_, val: unknown) =>
     isPlainObject(val)
-      ? Object.keys(val)
+      ? Object.keys(val as GenericObject)
           .sort()
           .reduce((result, key) => {
-            result[key] = val[key]
+            result[key] = (val as GenericObject)[key]
             return result
-          }, {} as any)
+          }, {} as GenericObject)
       : val
   )
 }
+
+/**
+ * Compute a canonical string key for a name, which is identical for names
+ * that are deeply equal regardless of the order of their keys.
+ */
+export function hashName(name: Name): string {
+  return hashValue(name)
+}
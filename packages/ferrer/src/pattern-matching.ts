@@ -1,44 +1,75 @@
-import type { SerializableArray, SerializableObject } from "@ferrer/utils"
-import type { Name } from "./Name.js"
+import {
+  isPlainObject,
+  type SerializableArray,
+  type SerializableObject,
+  type SerializableValue
+} from "@ferrer/utils"
+import type { Name } from "./core-types.js"
 
 /**
- * Determine if the given name matches the given pattern.
+ * Operators that may appear in patterns. An object in a pattern whose keys
+ * all begin with `$` is treated as a set of operators, all of which must
+ * hold for the corresponding value:
+ *
+ * - `$eq`: the value is deeply equal to the operand (no subset matching).
+ * - `$not`: the value does not match the operand, which is itself a pattern.
+ * - `$in`: the value matches at least one of the patterns in the operand.
+ * - `$exists`: the key is present (`true`) or absent (`false`).
+ * - `$prefix`: the value is a string starting with the operand.
+ * - `$gt`, `$gte`, `$lt`, `$lte`: the value is a number or string comparing
+ *   accordingly with an operand of the same type.
+ * - `$contains`: the value is an array with an element matching the operand.
+ */
+export type PatternOperators = {
+  $eq?: SerializableValue
+  $not?: SerializableValue
+  $in?: SerializableArray
+  $exists?: boolean
+  $prefix?: string
+  $gt?: number | string
+  $gte?: number | string
+  $lt?: number | string
+  $lte?: number | string
+  $contains?: SerializableValue
+}
+
+/**
+ * Determine if the given name matches the given pattern. Every key of the
+ * pattern must match the name: primitives by equality, objects recursively
+ * as subsets, arrays element-wise with equal lengths, and operator objects
+ * as described by `PatternOperators`.
  */
 export function matches(name: Name, pattern: Name) {
   for (const key in pattern) {
-    if (!(key in name)) {
+    if (!matchesValue(key in name ? name[key] : undefined, pattern[key])) {
       return false
     }
-    const patternValue = pattern[key]
-    const objValue = name[key]
-
-    if (typeof patternValue === "object" && patternValue !== null) {
-      if (Array.isArray(patternValue)) {
-        if (
-          !Array.isArray(objValue) ||
-          !matchesArrayPattern(objValue, patternValue)
-        ) {
-          return false
-        }
-      } else {
-        if (
-          typeof objValue !== "object" ||
-          objValue === null ||
-          Array.isArray(objValue) ||
-          !matches(objValue, patternValue)
-        ) {
-          return false
-        }
-      }
-    } else {
-      if (objValue !== patternValue) {
-        return false
-      }
-    }
   }
   return true
 }
 
+/** Determine if the given value, possibly absent, matches a pattern value. */
+function matchesValue(
+  value: SerializableValue | undefined,
+  pattern: SerializableValue
+): boolean {
+  if (typeof pattern !== "object" || pattern === null) {
+    return value === pattern
+  }
+  if (Array.isArray(pattern)) {
+    return Array.isArray(value) && matchesArrayPattern(value, pattern)
+  }
+  if (isOperatorObject(pattern)) {
+    return matchesOperators(value, pattern)
+  }
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    matches(value, pattern)
+  )
+}
+
 function matchesArrayPattern(
   arr: SerializableArray,
   pattern: SerializableArray
@@ -47,35 +78,118 @@ function matchesArrayPattern(
     return false
   }
   for (let i = 0; i < arr.length; i++) {
-    if (typeof pattern[i] === "object" && pattern[i] !== null) {
-      if (Array.isArray(pattern[i])) {
+    if (!matchesValue(arr[i], pattern[i])) {
+      return false
+    }
+  }
+  return true
+}
+
+/** Determine if a pattern object is a set of operators. */
+export function isOperatorObject(pattern: SerializableObject): boolean {
+  const keys = Object.keys(pattern)
+  return keys.length > 0 && keys.every((key) => key.startsWith("$"))
+}
+
+function matchesOperators(
+  value: SerializableValue | undefined,
+  operators: SerializableObject
+): boolean {
+  for (const op in operators) {
+    const operand = operators[op]
+    switch (op) {
+      case "$eq":
+        if (value === undefined || !deepEqual(value, operand)) return false
+        break
+      case "$not":
+        if (matchesValue(value, operand)) return false
+        break
+      case "$in":
+        if (
+          !Array.isArray(operand) ||
+          !operand.some((candidate) => matchesValue(value, candidate))
+        ) {
+          return false
+        }
+        break
+      case "$exists":
+        if ((value !== undefined) !== Boolean(operand)) return false
+        break
+      case "$prefix":
         if (
-          !Array.isArray(arr[i]) ||
-          !matchesArrayPattern(
-            arr[i] as SerializableArray,
-            pattern[i] as SerializableArray
-          )
+          typeof value !== "string" ||
+          typeof operand !== "string" ||
+          !value.startsWith(operand)
         ) {
           return false
         }
-      } else {
+        break
+      case "$gt":
+      case "$gte":
+      case "$lt":
+      case "$lte":
+        if (!compares(op, value, operand)) return false
+        break
+      case "$contains":
         if (
-          typeof arr[i] !== "object" ||
-          arr[i] === null ||
-          Array.isArray(arr[i]) ||
-          !matches(
-            arr[i] as SerializableObject,
-            pattern[i] as SerializableObject
-          )
+          !Array.isArray(value) ||
+          !value.some((element) => matchesValue(element, operand))
         ) {
           return false
         }
-      }
-    } else {
-      if (arr[i] !== pattern[i]) {
-        return false
-      }
+        break
+      default:
+        throw new Error(`matches(): unknown pattern operator ${op}`)
     }
   }
   return true
 }
+
+function compares(
+  op: "$gt" | "$gte" | "$lt" | "$lte",
+  value: SerializableValue | undefined,
+  operand: SerializableValue
+): boolean {
+  if (
+    !(typeof value === "number" || typeof value === "string") ||
+    typeof value !== typeof operand
+  ) {
+    return false
+  }
+  const bound = operand as number | string
+  switch (op) {
+    case "$gt":
+      return value > bound
+    case "$gte":
+      return value >= bound
+    case "$lt":
+      return value < bound
+    case "$lte":
+      return value <= bound
+  }
+}
+
+function deepEqual(a: SerializableValue, b: SerializableValue): boolean {
+  if (
+    typeof a !== "object" ||
+    a === null ||
+    typeof b !== "object" ||
+    b === null
+  ) {
+    return a === b
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((element, i) => deepEqual(element, b[i]))
+    )
+  }
+  const keys = Object.keys(a)
+  return (
+    isPlainObject(b) &&
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => key in b && deepEqual(a[key], b[key]))
+  )
+}
@@ -0,0 +1,314 @@
+import type {
+  AtomImpl,
+  AtomImplFunction,
+  Context,
+  Element,
+  Name
+} from "./core-types.js"
+import { EarlyDisposalError, TimeoutError } from "./errors.js"
+import { disposeAtomImpl } from "./lifecycle.js"
+
+/**
+ * An atom implementation kept in a pool, e.g. one wrapping a database
+ * connection. Disposing it destroys it; pooled implementations are only
+ * destroyed when evicted or when the pool is closed.
+ */
+export type PooledImpl<TArg, TResult> = AtomImplFunction<TArg, TResult> &
+  Partial<Disposable & AsyncDisposable>
+
+/** Options for a `PooledElement`. */
+export type PoolOptions<TArg, TResult> = {
+  /** Create a new implementation for the pool. */
+  create: () => Promise<PooledImpl<TArg, TResult>>
+  /**
+   * Check that an idle implementation is still usable before it is checked
+   * out; those that are not are destroyed.
+   */
+  validate?: (impl: PooledImpl<TArg, TResult>) => boolean | Promise<boolean>
+  /** Number of implementations kept even when idle. Defaults to 0. */
+  min?: number
+  /** Maximum number of implementations, idle or leased. Defaults to 10. */
+  max?: number
+  /**
+   * Milliseconds after which an idle implementation is destroyed, unless the
+   * pool is at its minimum size. Defaults to 30 seconds.
+   */
+  idleTimeout?: number
+  /**
+   * Milliseconds to wait for an implementation when all are leased, after
+   * which checkout fails with a `TimeoutError`. Defaults to no limit.
+   */
+  acquireTimeout?: number
+}
+
+type IdleEntry<TArg, TResult> = {
+  impl: PooledImpl<TArg, TResult>
+  timer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * A checked out implementation, usable until disposed, when it is returned
+ * to the pool.
+ */
+export type PoolLease<TArg, TResult> = AtomImplFunction<TArg, TResult> &
+  Disposable
+
+/**
+ * An `Element` whose atom implementations are pooled, for implementations
+ * wrapping expensive resources such as database clients or child
+ * processes. Each call of its atoms leases an implementation, waiting if all
+ * `max` are leased, and returns it when the call settles, so implementations
+ * are shared by the atoms of every lifecycle rather than destroyed with them.
+ *
+ * Disposing the element asynchronously closes the pool, destroying the idle
+ * implementations now and the leased ones as they are returned. Failures to
+ * destroy implementations evicted in the meantime are ignored.
+ */
+export class PooledElement<TArg = unknown, TResult = unknown>
+  implements Element<TArg, TResult>
+{
+  readonly name: Name
+  readonly options: PoolOptions<TArg, TResult>
+  readonly min: number
+  readonly max: number
+  readonly idleTimeout: number
+  /** Internal: idle implementations, most recently returned last. */
+  _idle: IdleEntry<TArg, TResult>[] = []
+  /** Internal: number of implementations, idle, leased or being created. */
+  _size = 0
+  /** Internal: number of leased implementations. */
+  _leased = 0
+  /** Internal: checkouts waiting for an implementation to be returned. */
+  _waiters = new Set<() => void>()
+  /** Internal: whether the pool has been closed. */
+  _closed = false
+
+  constructor(name: Name, options: PoolOptions<TArg, TResult>) {
+    this.name = name
+    this.options = options
+    this.min = options.min ?? 0
+    this.max = options.max ?? 10
+    this.idleTimeout = options.idleTimeout ?? 30_000
+  }
+
+  /** Number of implementations in the pool, idle or leased. */
+  get size(): number {
+    return this._size
+  }
+
+  /** Number of idle implementations. */
+  get idle(): number {
+    return this._idle.length
+  }
+
+  /** Number of leased implementations. */
+  get leased(): number {
+    return this._leased
+  }
+
+  /** Create implementations until the pool has at least `min`. */
+  async warm(): Promise<void> {
+    while (!this._closed && this._size < this.min) {
+      this._size++
+      try {
+        this._makeIdle(await this.options.create())
+      } catch (err) {
+        this._size--
+        throw err
+      }
+    }
+  }
+
+  getAtom(pattern: Name, _context: Context): Promise<AtomImpl<TArg, TResult>> {
+    let disposed = false
+    return Promise.resolve(
+      Object.assign(
+        async (context: Context, arg: TArg) => {
+          if (disposed) {
+            throw new EarlyDisposalError(
+              context,
+              "PooledElement: atom disposed"
+            )
+          }
+          using lease = await this.acquire(context)
+          return await lease(context, arg)
+        },
+        {
+          [Symbol.dispose]: () => {
+            disposed = true
+          },
+          requestedPattern: pattern
+        }
+      )
+    )
+  }
+
+  /**
+   * Check out an implementation, waiting for one to be returned if all `max`
+   * are leased, until `context` is aborted or `acquireTimeout` passes.
+   */
+  async acquire(context: Context): Promise<PoolLease<TArg, TResult>> {
+    const impl = await this._checkout(context)
+    let leased = true
+    return Object.assign(
+      (callContext: Context, arg: TArg) => {
+        if (!leased) {
+          return Promise.reject(
+            new EarlyDisposalError(callContext, "PooledElement: lease returned")
+          )
+        }
+        return impl(callContext, arg)
+      },
+      {
+        [Symbol.dispose]: () => {
+          if (!leased) return
+          leased = false
+          this._release(impl)
+        }
+      }
+    )
+  }
+
+  /** Close the pool, destroying its implementations. */
+  async [Symbol.asyncDispose]() {
+    this._closed = true
+    for (const wake of this._waiters) wake()
+    const idle = this._idle.splice(0)
+    this._size -= idle.length
+    const results = await Promise.allSettled(
+      idle.map(({ impl, timer }) => {
+        clearTimeout(timer)
+        return disposeAtomImpl(impl)
+      })
+    )
+    const errors = results.flatMap((result) =>
+      result.status === "rejected" ? [result.reason as unknown] : []
+    )
+    if (errors.length > 0) {
+      throw new AggregateError(errors, "PooledElement: failed to destroy")
+    }
+  }
+
+  /** Internal: lease an implementation, waiting for one if need be. */
+  async _checkout(context: Context): Promise<PooledImpl<TArg, TResult>> {
+    const deadline = Date.now() + (this.options.acquireTimeout ?? Infinity)
+    for (;;) {
+      if (this._closed) {
+        throw new EarlyDisposalError(context, "PooledElement: pool closed")
+      }
+      const entry = this._idle.pop()
+      if (entry !== undefined) {
+        clearTimeout(entry.timer)
+        this._leased++
+        let valid: boolean
+        try {
+          valid = (await this.options.validate?.(entry.impl)) ?? true
+        } catch {
+          // A validation that throws condemns the implementation
+          valid = false
+        }
+        if (valid) return entry.impl
+        this._leased--
+        this._discard(entry.impl)
+        continue
+      }
+      if (this._size < this.max) {
+        this._size++
+        try {
+          const impl = await this.options.create()
+          this._leased++
+          return impl
+        } catch (err) {
+          this._size--
+          this._wakeOne()
+          throw err
+        }
+      }
+      await this._waitForRelease(context, deadline)
+    }
+  }
+
+  /**
+   * Internal: wait until an implementation is returned or destroyed, the
+   * deadline passes or the context is aborted.
+   */
+  _waitForRelease(context: Context, deadline: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const { signal } = context
+      const settle = () => {
+        this._waiters.delete(wake)
+        clearTimeout(timer)
+        signal?.removeEventListener("abort", onAbort)
+      }
+      const wake = () => {
+        settle()
+        resolve()
+      }
+      const onAbort = () => {
+        settle()
+        reject(signal?.reason)
+      }
+      let timer: ReturnType<typeof setTimeout> | undefined
+      if (deadline !== Infinity) {
+        timer = setTimeout(
+          () => {
+            settle()
+            reject(new TimeoutError(context, this.options.acquireTimeout ?? 0))
+          },
+          Math.max(0, deadline - Date.now())
+        )
+      }
+      if (signal?.aborted === true) {
+        onAbort()
+        return
+      }
+      signal?.addEventListener("abort", onAbort)
+      this._waiters.add(wake)
+    })
+  }
+
+  /** Internal: return a leased implementation to the pool. */
+  _release(impl: PooledImpl<TArg, TResult>) {
+    this._leased--
+    this._makeIdle(impl)
+  }
+
+  /**
+   * Internal: make `impl` available for checkout, evicting it once idle for
+   * too long, or destroy it if the pool is closed.
+   */
+  _makeIdle(impl: PooledImpl<TArg, TResult>) {
+    if (this._closed) {
+      this._discard(impl)
+      return
+    }
+    const entry: IdleEntry<TArg, TResult> = { impl }
+    if (this._size > this.min) {
+      entry.timer = setTimeout(() => {
+        const index = this._idle.indexOf(entry)
+        if (index === -1 || this._size <= this.min) return
+        this._idle.splice(index, 1)
+        this._discard(impl)
+      }, this.idleTimeout)
+      // Idle timers alone should not keep the process alive
+      ;(entry.timer as { unref?: () => void }).unref?.()
+    }
+    this._idle.push(entry)
+    this._wakeOne()
+  }
+
+  /** Internal: destroy an implementation, making room for another. */
+  _discard(impl: PooledImpl<TArg, TResult>) {
+    this._size--
+    disposeAtomImpl(impl).catch(() => {})
+    this._wakeOne()
+  }
+
+  /** Internal: let the longest waiting checkout try again. */
+  _wakeOne() {
+    for (const wake of this._waiters) {
+      wake()
+      return
+    }
+  }
+}
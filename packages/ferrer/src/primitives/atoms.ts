@@ -1,17 +1,38 @@
+import type { SerializableObject } from "@ferrer/utils"
+import type {
+  BindMetadata,
+  Binding,
+  DomainBackend,
+  Resolver
+} from "./backend.js"
+import type { CircuitBreakers } from "./circuit-breaker.js"
+import type { HealthStatus } from "./health.js"
+import type { InterceptorRegistration } from "./interceptors.js"
 import type { Logging } from "./logging.js"
-import type { Name, TypedName } from "./name.js"
-import type { TraceVector } from "./tracing.js"
+import type { Name, StreamName, TypedName } from "./name.js"
+import type { RetryOptions } from "./retry.js"
+import type { SpanContext, SpanExporter, TraceVector } from "./tracing.js"
 
 /** Metadata about a requested atom. */
 export type AtomMetadata = {
   /** The pattern match that was requested. */
   readonly requestedPattern: Name
-  /** The Element of the atom */
-  readonly element: Element
+  /** The Element of the atom, once it is known */
+  readonly element?: Element
+}
+
+/** Options for a single call of an `Atom`. */
+export type CallOptions = {
+  /** Aborts the call, rejecting it with the signal's reason. */
+  signal?: AbortSignal
+  /** Milliseconds after which the call is aborted with a `TimeoutError`. */
+  timeout?: number
 }
 
 // Type-fu for atom call arguments. Allows calling atoms with no arguments when needed
-type AtomArgs<TArg> = TArg extends undefined ? [] : [arg: TArg]
+type AtomArgs<TArg> = TArg extends undefined
+  ? [arg?: undefined, options?: CallOptions]
+  : [arg: TArg, options?: CallOptions]
 
 /**
  * `Atom`s are the core building block of ferrer systems. They are asynchronous
@@ -22,11 +43,25 @@ type AtomArgs<TArg> = TArg extends undefined ? [] : [arg: TArg]
  *
  * `Atom`s are `Disposable` and must be disposed when their callers are
  * finished with them. This is best done using explicit resource management
- * with the `using` keyword.
+ * with the `using` keyword, or `await using` to wait for the disposal of
+ * the underlying implementation.
  */
 export type Atom<TArg, TResult> = ((
   ...args: AtomArgs<TArg>
 ) => Promise<TResult>) &
+  AtomMetadata &
+  Disposable &
+  AsyncDisposable
+
+/**
+ * An `Atom` whose results are streamed. Each call returns an
+ * `AsyncIterableIterator` over the items produced by the implementation;
+ * calling `return()` on it, e.g. by breaking out of a `for await` loop,
+ * or disposing the atom, stops the producer.
+ */
+export type StreamAtom<TArg, TItem> = ((
+  ...args: AtomArgs<TArg>
+) => AsyncIterableIterator<TItem>) &
   AtomMetadata &
   Disposable
 
@@ -42,9 +77,12 @@ export type AtomImplFunction<TArg, TResult> = (
 /**
  * Implementation of an `Atom`. This is distinguished from the `Atom` itself
  * in that the context is explicit within the atom implementation.
+ * Implementations holding resources that take time to release may also be
+ * `AsyncDisposable`, which is preferred where disposal can be awaited.
  */
 export type AtomImpl<TArg, TResult> = AtomImplFunction<TArg, TResult> &
   Disposable &
+  Partial<AsyncDisposable> &
   AtomMetadata
 
 /**
@@ -67,6 +105,41 @@ export interface Element<TArg = unknown, TResult = unknown> {
   ): Promise<AtomImpl<TArg, TResult>>
 
   readonly name: Name
+
+  /**
+   * Check whether the element can serve calls, e.g. whether the database
+   * behind it is reachable. Elements without a check are assumed healthy.
+   */
+  checkHealth?(): Promise<HealthStatus>
+
+  /** Release the element's resources when its domain shuts down. */
+  [Symbol.asyncDispose]?(): Promise<void>
+}
+
+/**
+ * Options controlling how an `Atom` acquired via `find` is called. The
+ * `signal` and `timeout` apply to every call of the atom, in addition to
+ * those passed to the individual calls.
+ */
+export type FindOptions = CallOptions & {
+  /** Overrides of the domain's retry policy for this atom. */
+  retry?: RetryOptions
+}
+
+/** Security information about the caller on whose behalf a context runs. */
+export type ContextSecurity = SerializableObject & {
+  /** Identity of the caller. */
+  principal?: string
+  /** Roles granted to the caller. */
+  roles?: string[]
+  /** Further claims about the caller, e.g. from a verified token. */
+  claims?: SerializableObject
+}
+
+/** Metadata about the caller, recorded on a root context. */
+export type ContextMetadata = {
+  security?: ContextSecurity
+  [key: string]: SerializableObject | undefined
 }
 
 /**
@@ -75,7 +148,19 @@ export interface Element<TArg = unknown, TResult = unknown> {
  */
 export interface Context {
   /** Locate an atom matching the given pattern. */
-  find<TArg, TResult>(pattern: TypedName<TArg, TResult>): Atom<TArg, TResult>
+  find<TArg, TResult>(
+    pattern: TypedName<TArg, TResult>,
+    options?: FindOptions
+  ): Atom<TArg, TResult>
+
+  /** Locate a streaming atom matching the given pattern. */
+  findStream<TArg, TItem>(
+    pattern: StreamName<TArg, TItem>,
+    options?: FindOptions
+  ): StreamAtom<TArg, TItem>
+
+  /** The resolver used to locate atoms from within this context. */
+  readonly resolver: Resolver
 
   /** The logging interface for this context */
   readonly log: Logging
@@ -85,6 +170,25 @@ export interface Context {
 
   /** The domain containing this context. */
   readonly domain: Domain
+
+  /**
+   * Signal aborted when the work of this context is cancelled, including by
+   * the cancellation of any parent context. Long-running implementations
+   * should observe it and stop early.
+   */
+  readonly signal?: AbortSignal
+
+  /**
+   * The span under which calls from this context are traced: that of the
+   * atom call executing in it, or at an ingress, that of the remote caller.
+   */
+  readonly span?: SpanContext
+
+  /**
+   * Information about the caller on whose behalf this context runs, as given
+   * to `Ingress.externalize` and inherited by every context below it.
+   */
+  readonly metadata: ContextMetadata
 }
 
 /**
@@ -95,14 +199,40 @@ export interface Context {
  * lives in another domain, it must be accessed
  * using explicit `Ingress` and `Egress` objects
  */
-export interface Domain {
+export interface Domain extends DomainBackend {
+  /** Retry policy applied to atoms called within this `Domain`. */
+  readonly retryPolicy?: RetryOptions
+
+  /** Receives the span of each atom call made within this `Domain`. */
+  readonly spanExporter?: SpanExporter
+
+  /** Circuit breakers of the elements called within this `Domain`, if any. */
+  readonly circuitBreakers?: CircuitBreakers
+
+  /** Interceptors around atom calls made within this `Domain`, in order. */
+  readonly interceptors?: readonly InterceptorRegistration[]
+
+  /**
+   * Aborted when the domain's shutdown deadline passes, cancelling every
+   * atom call still in flight within it.
+   */
+  readonly shutdownSignal?: AbortSignal
+
+  /**
+   * Remove the memoized results of cacheable bindings whose names match
+   * `pattern`, returning how many were removed.
+   */
+  invalidateResults?(pattern: Name): number
+
   /**
-   * Bind a `Name` to an `Element` within this `Domain`.
+   * Bind a `Name` to an `Element` within this `Domain`. Disposing the
+   * returned `Binding` unbinds it again.
    */
   bind<TArg, TResult>(
     name: TypedName<TArg, TResult>,
     element:
       | NoInfer<AtomImplFunction<TArg, TResult>>
-      | NoInfer<Element<TArg, TResult>>
-  ): void
+      | NoInfer<Element<TArg, TResult>>,
+    metadata?: BindMetadata
+  ): Binding
 }
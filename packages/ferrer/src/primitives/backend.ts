@@ -1,6 +1,8 @@
-import type { Context, Element } from "./atoms.js"
+import type { Context, ContextMetadata, Element } from "./atoms.js"
+import type { ResultCacheOptions } from "./cache.js"
+import type { InspectableLifecycle } from "./introspection.js"
 import type { Name } from "./name.js"
-import type { TraceVector } from "./tracing.js"
+import type { SpanContext, TraceVector } from "./tracing.js"
 
 /**
  * A `Registry` is *synchronous* store of bindings from `Name`s to `Element`s.
@@ -12,25 +14,141 @@ export interface Registry {
    */
   match(pattern: Name): Registration[]
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  register(name: Name, element: Element<any, any>): void
+  register(
+    name: Name,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    element: Element<any, any>,
+    metadata?: BindMetadata
+  ): Registration
+
+  /**
+   * Remove a registration previously returned by `register`. Returns `false`
+   * if it was not registered.
+   */
+  unregister(registration: Registration): boolean
+}
+
+/** Metadata supplied when binding a `Name`, kept with its `Registration`. */
+export type BindMetadata = {
+  /**
+   * Preference among several registrations matching the same pattern, used
+   * by `PriorityStrategy`. Higher priorities win; the default is 0.
+   */
+  priority?: number
+  /**
+   * Marks the binding as cacheable, memoizing its results by resolved name
+   * and argument.
+   */
+  cache?: ResultCacheOptions
 }
 
 /** Entry in a `Registry` */
-export type Registration = { name: Name; element: Element }
+export type Registration = {
+  name: Name
+  element: Element
+  metadata: BindMetadata
+}
+
+/**
+ * Handle to a binding made with `Domain.bind`. Disposing it removes the
+ * binding from the domain.
+ */
+export type Binding = Readonly<Registration> & Disposable
 
 /** The result of resolving a pattern to an element. */
-export type Resolution = { name: Name; element: Element }
+export type Resolution = {
+  name: Name
+  element: Element
+  /**
+   * The registration the resolution was made from, where `element` is not
+   * the registered element itself but a wrapper around it.
+   */
+  registration?: Registration
+  /**
+   * Whether atoms may keep using the resolution for later calls, rather
+   * than resolving again for each call. Defaults to `true`.
+   */
+  sticky?: boolean
+}
 
 /** Resolves a pattern to a single `Element` whose name matches the pattern. */
 export interface Resolver {
-  resolve(pattern: Name): Promise<Resolution | undefined>
+  /**
+   * @param metadata Metadata of the caller on whose behalf the pattern is
+   * resolved, if known, which resolvers reaching other domains pass on.
+   */
+  resolve(
+    pattern: Name,
+    metadata?: ContextMetadata
+  ): Promise<Resolution | undefined>
+
+  /**
+   * Work out what `resolve` would return, without side effects such as
+   * advancing a round robin. Resolvers that cannot, e.g. because they ask
+   * other domains, leave it out.
+   */
+  preview?(pattern: Name): Resolution | undefined
+}
+
+/**
+ * Chooses among the registrations matching a pattern when there is more
+ * than one.
+ */
+export interface ResolutionStrategy {
+  /**
+   * Whether atoms may keep the registration selected for them for all their
+   * calls. Load-balancing strategies set this to `false`, so that each call
+   * is resolved afresh. Defaults to `true`.
+   */
+  readonly sticky?: boolean
+
+  /**
+   * Select the resolution for a pattern from a non-empty list of matching
+   * registrations, given in registration order.
+   */
+  select(pattern: Name, candidates: Registration[]): Resolution
+
+  /**
+   * Select as `select` would, without updating any state of the strategy.
+   * Strategies whose `select` has no side effects need not implement it.
+   */
+  peek?(pattern: Name, candidates: Registration[]): Resolution
 }
 
 export interface DomainBackend {
   createContext(
     parentContext: Context | undefined,
     resolver?: Resolver,
-    traceVector?: TraceVector
+    traceVector?: TraceVector,
+    signal?: AbortSignal,
+    span?: SpanContext,
+    metadata?: ContextMetadata
   ): Context
+
+  /**
+   * Register a callback to be invoked if `element` is unbound from the
+   * domain, so that anything caching it can be invalidated. Returns a
+   * function that cancels the registration.
+   */
+  watchElement(element: Element, onInvalidate: () => void): () => void
+
+  /**
+   * Register a live atom lifecycle for introspection and shutdown, until the
+   * returned function is called when it is disposed.
+   */
+  trackLifecycle?(lifecycle: TrackedLifecycle): () => void
+}
+
+/** A live atom lifecycle, as tracked by its domain. */
+export interface TrackedLifecycle extends InspectableLifecycle {
+  /** Dispose the lifecycle without awaiting its atom implementation. */
+  dispose(): void
+  /** Wait until no call of the atom is in flight. */
+  drain(): Promise<void>
+  /**
+   * Dispose the lifecycle, awaiting the disposal of its cached atom
+   * implementation once no call is using it, or straight away if `force` is
+   * set, and return any disposal failures.
+   */
+  disposeAsync(force?: boolean): Promise<unknown[]>
 }
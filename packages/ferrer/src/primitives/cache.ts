@@ -0,0 +1,39 @@
+import type { Name } from "./name.js"
+
+/** A memoized result of an atom call. */
+export type CachedResult = {
+  /** Resolved name of the element that produced the result. */
+  readonly name: Name
+  readonly value: unknown
+  /** When the result expires, in milliseconds since the epoch. */
+  readonly expiresAt: number
+}
+
+/**
+ * Storage for the memoized results of a cacheable binding, keyed by
+ * `resultCacheKey`. Stores may evict entries whenever they like.
+ */
+export interface ResultStore {
+  get(key: string): CachedResult | undefined
+  set(key: string, entry: CachedResult): void
+  /** Remove an entry. Returns `false` if there was none. */
+  delete(key: string): boolean
+  /** Every entry currently stored, for invalidation by name. */
+  entries(): Iterable<[string, CachedResult]>
+}
+
+/**
+ * Marks a binding as cacheable, i.e. as a pure function of its name and
+ * argument, so that its results are memoized.
+ */
+export type ResultCacheOptions = {
+  /** Milliseconds for which a result is reused. */
+  ttl: number
+  /**
+   * Maximum number of results kept by the default store, evicting the least
+   * recently used. Defaults to 1000.
+   */
+  maxSize?: number
+  /** Storage for the results, instead of an in-memory LRU store. */
+  store?: ResultStore
+}
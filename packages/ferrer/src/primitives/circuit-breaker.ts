@@ -0,0 +1,52 @@
+import type { Name } from "./name.js"
+
+/**
+ * State of a circuit breaker: `closed` while calls flow normally, `open`
+ * while calls are refused after repeated failures, and `half-open` while
+ * a limited number of probe calls test whether the element has recovered.
+ */
+export type CircuitState = "closed" | "open" | "half-open"
+
+export type CircuitBreakerPolicy = {
+  /** Consecutive failures after which the breaker opens. */
+  failureThreshold: number
+  /** Milliseconds an open breaker waits before admitting probe calls. */
+  coolDown: number
+  /** Maximum number of concurrent probe calls while half-open. */
+  halfOpenMaxCalls: number
+  /** Which errors count as failures of the element. */
+  isFailure: (err: unknown) => boolean
+}
+
+export type CircuitBreakerOptions = Partial<CircuitBreakerPolicy>
+
+/** The state of the circuit breaker of one resolved name, for inspection. */
+export type CircuitBreakerSnapshot = {
+  readonly name: Name
+  readonly state: CircuitState
+  /** Consecutive failures counted towards the threshold. */
+  readonly failures: number
+  /** When the breaker last opened, in milliseconds since the epoch. */
+  readonly openedAt?: number
+}
+
+/** Handle through which the outcome of an admitted call is reported. */
+export interface CircuitCall {
+  succeeded(): void
+  failed(err: unknown): void
+  /** The call ended without an outcome, e.g. because it was cancelled. */
+  abandoned(): void
+}
+
+/** Circuit breakers of a domain, keyed by resolved name. */
+export interface CircuitBreakers {
+  /** Whether calls to the element named `name` would be admitted. */
+  isAvailable(name: Name): boolean
+  /**
+   * Admit a call to the element named `name`, or return `undefined` if its
+   * breaker refuses it.
+   */
+  admit(name: Name): CircuitCall | undefined
+  /** The state of every breaker, for dashboards. */
+  snapshot(): CircuitBreakerSnapshot[]
+}
@@ -0,0 +1,30 @@
+import type { Name } from "./name.js"
+
+/**
+ * Health of an element: `degraded` elements still serve calls, whereas
+ * `unhealthy` ones are skipped by resolvers where other matches exist.
+ */
+export type HealthState = "healthy" | "degraded" | "unhealthy"
+
+/** The outcome of an element's health check. */
+export type HealthStatus = {
+  state: HealthState
+  /** Human-readable explanation, e.g. why a database is unreachable. */
+  detail?: string
+}
+
+/** The health of one registration, within a `HealthReport`. */
+export type ElementHealth = HealthStatus & {
+  name: Name
+}
+
+/** Aggregate health of the elements of a domain that check their health. */
+export type HealthReport = {
+  /** The worst state of any element. */
+  state: HealthState
+  /** Whether no element is unhealthy. */
+  ready: boolean
+  /** When the checks were made, in milliseconds since the epoch. */
+  checkedAt: number
+  elements: ElementHealth[]
+}
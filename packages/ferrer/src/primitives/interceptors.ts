@@ -0,0 +1,44 @@
+import type { Context } from "./atoms.js"
+import type { Name } from "./name.js"
+
+/**
+ * Whether an atom call was made from within the domain, through
+ * `Context.find`, or arrived through one of its `Ingress`s.
+ */
+export type InvocationDirection = "outbound" | "inbound"
+
+/** An atom call, as seen by an `Interceptor`. */
+export type Invocation = {
+  /** The context in which the atom is executed. */
+  readonly context: Context
+  /** The name the requested pattern resolved to. */
+  readonly name: Name
+  /** The pattern requested by the caller. */
+  readonly pattern: Name
+  /** The argument, as passed on by any interceptors before this one. */
+  readonly arg: unknown
+  readonly direction: InvocationDirection
+}
+
+/**
+ * Middleware around atom calls. An interceptor calls `next` to continue the
+ * call, optionally with a replacement argument, and returns its (possibly
+ * transformed) result; or it short-circuits the call by returning without
+ * calling `next`. Errors from `next` may be observed, replaced or swallowed.
+ */
+export type Interceptor = (
+  invocation: Invocation,
+  next: (...args: [arg?: unknown]) => Promise<unknown>
+) => Promise<unknown>
+
+/** Scope of an `Interceptor` registered on a domain. */
+export type InterceptorOptions = {
+  /** Only intercept calls resolving to names matching this pattern. */
+  pattern?: Name
+  /** Only intercept calls in this direction. */
+  direction?: InvocationDirection
+}
+
+export type InterceptorRegistration = InterceptorOptions & {
+  interceptor: Interceptor
+}
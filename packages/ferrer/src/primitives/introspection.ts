@@ -0,0 +1,65 @@
+import type { InvocationDirection } from "./interceptors.js"
+import type { Name } from "./name.js"
+
+/** Description of a registration in a domain, for introspection. */
+export type RegistrationInfo = {
+  name: Name
+  /** Class name of the registered element, e.g. `FunctionElement`. */
+  elementKind: string
+  /** The serializable parts of the registration's bind metadata. */
+  metadata: {
+    priority?: number
+    cache?: { ttl: number; maxSize?: number }
+  }
+  /** Whether the circuit breaker of the name admits calls. */
+  available: boolean
+}
+
+/** Description of an `Ingress` of a domain, for introspection. */
+export type IngressInfo = {
+  policies: number
+  defaultEffect: "allow" | "deny"
+}
+
+/** Description of an `Egress` of a domain, for introspection. */
+export type EgressInfo = {
+  /** Class name of the egress, e.g. `HttpEgress`. */
+  kind: string
+}
+
+/** Description of a live atom lifecycle, for introspection. */
+export type LifecycleInfo = {
+  /** Pattern requested by the consumer of the atom. */
+  pattern: Name
+  direction: InvocationDirection
+  /** Name of the cached element, if the pattern is currently resolved. */
+  resolvedName?: Name
+  /** Whether an atom implementation is currently cached. */
+  hasAtomImpl: boolean
+}
+
+/** Snapshot of the contents of a domain. */
+export type DomainDescription = {
+  registrations: RegistrationInfo[]
+  ingresses: IngressInfo[]
+  egresses: EgressInfo[]
+  lifecycles: LifecycleInfo[]
+  /** Whether the domain inherits the bindings of a parent domain. */
+  hasParent: boolean
+}
+
+/** The outcome of a dry run of resolving a pattern in a domain. */
+export type ResolutionExplanation = {
+  pattern: Name
+  /** The domain's own registrations matching the pattern, in order. */
+  matches: RegistrationInfo[]
+  /** The name the domain's resolver would pick, if any. */
+  selected?: Name
+  /** Where the selected name was found. */
+  source?: "local" | "parent" | "egress"
+}
+
+/** An atom lifecycle that can describe itself for introspection. */
+export interface InspectableLifecycle {
+  inspect(): LifecycleInfo
+}
@@ -29,3 +29,6 @@ export interface Logging {
   debug: LoggingFunction
   trace: LoggingFunction
 }
+
+/** Severity of a log message, from most to least severe. */
+export type LogLevel = keyof Logging
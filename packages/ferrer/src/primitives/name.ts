@@ -1,10 +1,12 @@
 import type { SerializableObject } from "@ferrer/utils"
+import type { InferOptional, NameSchemas } from "./schema.js"
 
 /** The name of a resource, which is ultimately a plain JSON object. */
 export type Name = SerializableObject
 
 export const TArg$ = Symbol.for("ferrer.type.arg")
 export const TResult$ = Symbol.for("ferrer.type.result")
+export const Schemas$ = Symbol.for("ferrer.schemas")
 
 /** A `Name` that carries additional type information about the argument and return value from a resource. */
 export type TypedName<TArg, TResult> = Name & {
@@ -37,6 +39,34 @@ export function local_name<TArg, TResult>(name: Name) {
   >
 }
 
+/** Whether a name was created by `local_name`, and so must stay local. */
+export function isLocalName(name: Name): boolean {
+  return name.local === true
+}
+
+/**
+ * Create a typed ferrer name carrying runtime schemas for its argument and
+ * result, from which its TypeScript types are inferred. Calls of atoms bound
+ * to the name have their argument validated before it reaches the
+ * implementation, and their result before it is returned, failing with a
+ * `ValidationError`. The schemas are kept under a symbol, so they play no
+ * part in pattern matching and are not serialized with the name.
+ */
+export function validated_name<const TSchemas extends NameSchemas>(
+  name: Name,
+  schemas: TSchemas
+) {
+  return Object.assign(name, { [Schemas$]: schemas }) as Name as TypedName<
+    TSchemas extends { arg: infer A } ? InferOptional<A> : undefined,
+    TSchemas extends { result: infer R } ? InferOptional<R> : undefined
+  >
+}
+
+/** The runtime schemas attached to a name, if any. */
+export function schemasOf(name: Name): NameSchemas | undefined {
+  return (name as { [Schemas$]?: NameSchemas })[Schemas$]
+}
+
 /**
  * Forcibly escapes from the TypeScript type system by typing a resource
  * as `any`.
@@ -46,3 +76,15 @@ export function untyped_name(name: Name) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return name as TypedName<any, any>
 }
+
+/** A `TypedName` for a streaming atom, whose result is an `AsyncIterable`. */
+export type StreamName<TArg, TItem> = TypedName<TArg, AsyncIterable<TItem>>
+
+/**
+ * Create a name for a streaming atom, whose implementation returns an
+ * `AsyncIterable` of items, to be used with `Context.findStream`. Streams
+ * cannot cross domain boundaries, so stream names are always local.
+ */
+export function stream_name<TArg, TItem>(name: Name) {
+  return local_name<TArg, AsyncIterable<TItem>>(name) as StreamName<TArg, TItem>
+}
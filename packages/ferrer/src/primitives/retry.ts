@@ -0,0 +1,26 @@
+/**
+ * Policy governing how a `Lifecycle` retries an atom call that fails with
+ * a transient error. All durations are in milliseconds.
+ */
+export type RetryPolicy = {
+  /** Maximum number of attempts, including the first one. */
+  maxAttempts: number
+  /** Delay before the first retry. */
+  initialDelay: number
+  /** Upper bound on the delay between any two attempts. */
+  maxDelay: number
+  /** Multiplier applied to the delay after each retry. */
+  backoffFactor: number
+  /**
+   * Fraction of each delay, between 0 and 1, that is randomized. A value of
+   * 0 gives deterministic delays; 1 gives "full jitter".
+   */
+  jitter: number
+  /** Overall time budget for the call, measured from its first attempt. */
+  deadline: number
+  /** Classifies errors; only errors deemed transient are retried. */
+  isTransient: (err: unknown) => boolean
+}
+
+/** A partial `RetryPolicy`, overriding the fields it specifies. */
+export type RetryOptions = Partial<RetryPolicy>
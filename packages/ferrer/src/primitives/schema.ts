@@ -0,0 +1,85 @@
+import type { SerializablePrimitive } from "@ferrer/utils"
+
+/**
+ * A runtime schema for the data passed to and from an atom. This is a
+ * subset of JSON Schema, covering the basic types, required and additional
+ * object properties, enumerations, simple bounds, and unions via `anyOf`.
+ */
+export type Schema =
+  | {
+      type: "string"
+      enum?: readonly string[]
+      minLength?: number
+      maxLength?: number
+      /** A regular expression the string must match. */
+      pattern?: string
+    }
+  | { type: "number" | "integer"; minimum?: number; maximum?: number }
+  | { type: "boolean" }
+  | { type: "null" }
+  | { const: SerializablePrimitive }
+  | {
+      type: "array"
+      items: Schema
+      minItems?: number
+      maxItems?: number
+    }
+  | {
+      type: "object"
+      properties: { readonly [key: string]: Schema }
+      required?: readonly string[]
+      /** Whether properties not listed are allowed. Defaults to `true`. */
+      additionalProperties?: boolean
+    }
+  | { anyOf: readonly Schema[] }
+
+/** Runtime schemas attached to a `TypedName`. */
+export type NameSchemas = {
+  /** Schema of the argument; if absent, the argument must be `undefined`. */
+  arg?: Schema
+  /** Schema of the result; if absent, the result must be `undefined`. */
+  result?: Schema
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] }
+
+type InferObject<TProperties, TRequired extends PropertyKey> = Simplify<
+  {
+    -readonly [K in keyof TProperties & TRequired]: Infer<TProperties[K]>
+  } & {
+    -readonly [K in Exclude<keyof TProperties, TRequired>]?: Infer<
+      TProperties[K]
+    >
+  }
+>
+
+/** The TypeScript type of the values matching a `Schema`. */
+export type Infer<TSchema> = TSchema extends { anyOf: readonly (infer U)[] }
+  ? Infer<U>
+  : TSchema extends { const: infer C }
+    ? C
+    : TSchema extends { type: "string"; enum: readonly (infer E)[] }
+      ? E
+      : TSchema extends { type: "string" }
+        ? string
+        : TSchema extends { type: "number" | "integer" }
+          ? number
+          : TSchema extends { type: "boolean" }
+            ? boolean
+            : TSchema extends { type: "null" }
+              ? null
+              : TSchema extends { type: "array"; items: infer I }
+                ? Array<Infer<I>>
+                : TSchema extends { type: "object"; properties: infer P }
+                  ? InferObject<
+                      P,
+                      TSchema extends { required: readonly (infer R)[] }
+                        ? R & PropertyKey
+                        : never
+                    >
+                  : never
+
+/** The TypeScript type of a value with an optional `Schema`. */
+export type InferOptional<TSchema> = TSchema extends Schema
+  ? Infer<TSchema>
+  : undefined
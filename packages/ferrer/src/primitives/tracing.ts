@@ -16,3 +16,36 @@ export type TraceEvent =
   | [eventType: TraceEventType.INGRESS_RETURN]
   | [eventType: TraceEventType.EGRESS_CALL]
   | [eventType: TraceEventType.EGRESS_RETURN]
+
+/**
+ * Identifies a span within a trace, possibly one in another process. The
+ * identifiers are lowercase hex strings, of 32 and 16 digits respectively,
+ * as in W3C Trace Context.
+ */
+export type SpanContext = {
+  readonly traceId: string
+  readonly spanId: string
+  /** Whether the trace is being recorded by its originator. */
+  readonly sampled: boolean
+}
+
+/** A single atom call within a trace. */
+export type Span = SpanContext & {
+  /** The span of the call that made this one, if any. */
+  readonly parentSpanId?: string
+  /** The pattern the atom was requested with. */
+  readonly name: Readonly<Name>
+  /** The name the pattern was resolved to, once known. */
+  resolvedName?: Readonly<Name>
+  /** Start of the call, in milliseconds since the epoch. */
+  readonly startTime: number
+  /** End of the call, in milliseconds since the epoch, once it has ended. */
+  endTime?: number
+  /** The error the call failed with, if it did. */
+  error?: unknown
+}
+
+/** Receives spans as they end, e.g. to send them to a tracing backend. */
+export interface SpanExporter {
+  export(span: Span): void
+}
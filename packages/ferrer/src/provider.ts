@@ -1,23 +1,73 @@
-import { isObject, type SerializableObject } from "@ferrer/utils"
+import { isObject } from "@ferrer/utils"
 import {
   TraceEventType,
   type Atom,
-  type AtomFunction,
+  type AtomImplFunction,
   type AtomImpl,
+  type BindMetadata,
+  type Binding,
+  type CallOptions,
+  type CircuitBreakerOptions,
+  type CircuitBreakers,
   type Context,
+  type ContextMetadata,
   type Domain,
+  type DomainDescription,
   type Element,
+  type FindOptions,
+  type HealthReport,
+  type Interceptor,
+  type InterceptorOptions,
+  type InterceptorRegistration,
+  type LogLevel,
   type Logging,
   type Name,
   type Registration,
   type Registry,
   type Resolution,
+  type ResolutionExplanation,
+  type ResolutionStrategy,
   type Resolver,
+  type RetryOptions,
+  type SpanContext,
+  type SpanExporter,
+  type StreamAtom,
+  type StreamName,
+  type TraceEvent,
   type TraceVector,
-  type TypedName
+  type TrackedLifecycle,
+  type TypedName,
+  isLocalName,
+  untyped_name
 } from "./core-types.js"
+import {
+  AuthorizingResolver,
+  authorize,
+  type IngressPolicy
+} from "./authorization.js"
+import { CircuitBreakerRegistry } from "./circuit-breaker.js"
+import { LocalityError, ShutdownError } from "./errors.js"
+import { HealthMonitor, HealthNames } from "./health.js"
+import { IndexedRegistry } from "./indexed-registry.js"
+import {
+  bindIntrospection,
+  describeDomain,
+  explainResolution,
+  isReservedName,
+  reservedNamePrefix
+} from "./introspection.js"
 import { Lifecycle } from "./lifecycle.js"
+import {
+  createTaggedLogger,
+  logLevelFor,
+  type LogLevelRule
+} from "./logging.js"
 import { matches } from "./pattern-matching.js"
+import { FirstMatchStrategy } from "./resolution-strategies.js"
+import { CachingElement, ResultCache } from "./result-cache.js"
+import { checkSerializable } from "./serializable.js"
+import { parseTraceparent } from "./spans.js"
+import { streamAtom } from "./streams.js"
 
 /**
  * An `Element` whose `Atom`s are just direct calls to a simple async function.
@@ -26,8 +76,8 @@ export class FunctionElement<TArg = unknown, TResult = unknown>
   implements Element<TArg, TResult>
 {
   name: Name
-  fn: AtomFunction<TArg, TResult>
-  constructor(name: Name, fn: AtomFunction<TArg, TResult>) {
+  fn: AtomImplFunction<TArg, TResult>
+  constructor(name: Name, fn: AtomImplFunction<TArg, TResult>) {
     this.fn = fn
     this.name = name
   }
@@ -51,25 +101,126 @@ export class BasicRegistry implements Registry {
     )
   }
 
-  register(name: Name, element: Element) {
-    this._registrations.push({ name, element })
+  register(name: Name, element: Element, metadata: BindMetadata = {}) {
+    const registration: Registration = { name, element, metadata }
+    this._registrations.push(registration)
+    return registration
+  }
+
+  unregister(registration: Registration): boolean {
+    const index = this._registrations.indexOf(registration)
+    if (index < 0) return false
+    this._registrations.splice(index, 1)
+    return true
   }
 }
 
-/** A `Resolver` that pulls directly from a `Registry`. */
+/**
+ * The default `Resolver` of a `BasicDomain`, which resolves from the domain's
+ * own registry, then from its parent domain, if any, and then falls through
+ * to each of its egresses in order. Local patterns never go through
+ * egresses; the ingresses on the other side refuse local names.
+ */
+export class DomainResolver implements Resolver {
+  domain: BasicDomain
+  constructor(domain: BasicDomain) {
+    this.domain = domain
+  }
+  async resolve(
+    pattern: Name,
+    metadata?: ContextMetadata
+  ): Promise<Resolution | undefined> {
+    const local = await this.domain.internalResolver.resolve(pattern)
+    if (local !== undefined) return local
+    const inherited = await this.domain.parent?.resolver.resolve(
+      pattern,
+      metadata
+    )
+    if (inherited !== undefined) return inherited
+    // Local patterns never leave the domain
+    if (isLocalName(pattern)) return undefined
+    for (const egress of this.domain.egresses) {
+      const remote = await egress.resolve(pattern, metadata)
+      if (remote !== undefined) return remote
+    }
+    return undefined
+  }
+}
+
+/** A `Resolver` that tries each of several resolvers in order. */
+export class FallbackResolver implements Resolver {
+  resolvers: Resolver[]
+  constructor(resolvers: Resolver[]) {
+    this.resolvers = resolvers
+  }
+  async resolve(
+    pattern: Name,
+    metadata?: ContextMetadata
+  ): Promise<Resolution | undefined> {
+    for (const resolver of this.resolvers) {
+      const resolution = await resolver.resolve(pattern, metadata)
+      if (resolution !== undefined) return resolution
+    }
+    return undefined
+  }
+}
+
+/**
+ * A `Resolver` that pulls directly from a `Registry`, using a
+ * `ResolutionStrategy` to choose among multiple matches. Given circuit
+ * breakers or a health monitor, matches whose breakers are open or whose
+ * elements were last reported unhealthy are skipped unless there are no
+ * others.
+ */
 export class RegistryResolver implements Resolver {
   registry: Registry
   filter: (registration: Registration) => boolean
+  strategy: ResolutionStrategy
+  circuitBreakers?: CircuitBreakers
+  health?: HealthMonitor
   constructor(
     registry: Registry,
-    filter: (registration: Registration) => boolean = () => true
+    filter: (registration: Registration) => boolean = () => true,
+    strategy: ResolutionStrategy = new FirstMatchStrategy(),
+    circuitBreakers?: CircuitBreakers,
+    health?: HealthMonitor
   ) {
     this.registry = registry
     this.filter = filter
+    this.strategy = strategy
+    this.circuitBreakers = circuitBreakers
+    this.health = health
   }
   resolve(pattern: Name): Promise<Resolution | undefined> {
+    const candidates = this._candidates(pattern)
+    if (candidates === undefined) return Promise.resolve(undefined)
+    const selected = this.strategy.select(pattern, candidates)
+    return Promise.resolve(
+      this.strategy.sticky === false ? { ...selected, sticky: false } : selected
+    )
+  }
+
+  preview(pattern: Name): Resolution | undefined {
+    const candidates = this._candidates(pattern)
+    if (candidates === undefined) return undefined
+    return this.strategy.peek !== undefined
+      ? this.strategy.peek(pattern, candidates)
+      : this.strategy.select(pattern, candidates)
+  }
+
+  /**
+   * Internal: the registrations the strategy chooses among, preferring
+   * available ones, or `undefined` if nothing matches.
+   */
+  _candidates(pattern: Name): Registration[] | undefined {
     const results = this.registry.match(pattern).filter(this.filter)
-    return Promise.resolve(results[0] ?? undefined)
+    if (results.length === 0) return undefined
+    const available = results.filter(
+      (registration) =>
+        this.circuitBreakers?.isAvailable(registration.name) !== false &&
+        this.health?.isHealthy(registration.element) !== false
+    )
+    return available.length > 0 ? available : results
   }
 }
 
@@ -92,13 +243,19 @@ export class BaseContext implements Context {
   resolver: Resolver
   log: Logging
   trace: TraceVector
+  signal?: AbortSignal
+  span?: SpanContext
+  metadata: ContextMetadata
 
   constructor(
     domain: Domain,
     parentContext?: Context,
     resolver?: Resolver,
     log?: Logging,
-    trace?: TraceVector
+    trace?: TraceVector,
+    signal?: AbortSignal,
+    span?: SpanContext,
+    metadata?: ContextMetadata
   ) {
     const inheritedResolver =
       parentContext instanceof BaseContext ? parentContext.resolver : undefined
@@ -112,90 +269,572 @@ export class BaseContext implements Context {
     this.resolver = finalResolver
     this.parentContext = parentContext
     this.domain = domain
-    this.log = log ?? createNoopLogger()
+    this.log = log ?? parentContext?.log ?? createNoopLogger()
     this.trace = trace ?? parentContext?.trace ?? []
+    this.signal = signal ?? parentContext?.signal
+    this.span = span ?? parentContext?.span
+    this.metadata = metadata ?? parentContext?.metadata ?? {}
   }
 
   /**
    * Locate a resource matching the given pattern within this context.
    */
-  find<TArg, TResult>(pattern: TypedName<TArg, TResult>): Atom<TArg, TResult> {
-    const lifecycle = new Lifecycle(this.domain, pattern, this)
+  find<TArg, TResult>(
+    pattern: TypedName<TArg, TResult>,
+    options?: FindOptions
+  ): Atom<TArg, TResult> {
+    const lifecycle = new Lifecycle(this.domain, pattern, this, options)
 
     return Object.assign(
-      (arg?: TArg) => {
-        return lifecycle.run(arg) as Promise<TResult>
+      (arg?: TArg, callOptions?: CallOptions) => {
+        return lifecycle.run(arg, callOptions) as Promise<TResult>
       },
       {
         [Symbol.dispose]: () => {
           lifecycle.dispose()
         },
+        [Symbol.asyncDispose]: async () => {
+          await lifecycle.disposeAsync()
+        },
         requestedPattern: pattern
       }
     )
   }
+
+  /**
+   * Locate a streaming resource matching the given pattern within this
+   * context.
+   */
+  findStream<TArg, TItem>(
+    pattern: StreamName<TArg, TItem>,
+    options?: FindOptions
+  ): StreamAtom<TArg, TItem> {
+    return streamAtom(this.find(pattern, options))
+  }
+}
+
+function isDomainCall(
+  event: TraceEvent
+): event is Extract<TraceEvent, [TraceEventType.DOMAIN_CALL, ...unknown[]]> {
+  return event[0] === TraceEventType.DOMAIN_CALL
 }
 
 function isElement(x: unknown): x is Element {
   return isObject(x) && "getAtom" in x && typeof x.getAtom === "function"
 }
 
+/** Options for constructing a `BasicDomain`. */
+export type BasicDomainOptions = {
+  /**
+   * Domain whose bindings this domain inherits, resolving them after its
+   * own. See `BasicDomain.createChild`.
+   */
+  parent?: BasicDomain
+  /** Retry policy for atoms called within the domain, over the defaults. */
+  retryPolicy?: RetryOptions
+  /**
+   * Strategy for choosing among several local registrations matching the
+   * same pattern. Defaults to `FirstMatchStrategy`.
+   */
+  resolutionStrategy?: ResolutionStrategy
+  /** Receives the span of each atom call made within the domain. */
+  spanExporter?: SpanExporter
+  /**
+   * Circuit breaker policy for the elements called within the domain, over
+   * the defaults. There are no circuit breakers unless this is given.
+   */
+  circuitBreaker?: CircuitBreakerOptions
+  /**
+   * Logging backend for contexts within the domain, such as
+   * `createConsoleLogger()`. Nothing is logged by default.
+   */
+  logger?: Logging
+  /** Level below which messages are dropped. Defaults to `"info"`. */
+  logLevel?: LogLevel
+  /** Per-name overrides of `logLevel`; the first matching rule applies. */
+  logLevels?: LogLevelRule[]
+  /**
+   * Whether to bind the built-in introspection atoms, `IntrospectionNames`,
+   * so that the domain can be queried through its ingresses.
+   */
+  introspection?: boolean
+  /**
+   * Whether to bind the built-in health atom, `HealthNames.report`, so that
+   * an ingress can serve it as a liveness endpoint.
+   */
+  healthEndpoint?: boolean
+  /** Milliseconds after which a pending health check counts as unhealthy. */
+  healthCheckTimeout?: number
+}
+
+/** Options for `BasicDomain.shutdown`. */
+export type ShutdownOptions = {
+  /**
+   * Milliseconds to wait for calls in flight to finish before aborting them.
+   * Defaults to 10 seconds.
+   */
+  deadline?: number
+}
+
+/** The outcome of `BasicDomain.shutdown`. */
+export type ShutdownReport = {
+  /** Whether every call in flight finished before the deadline. */
+  drained: boolean
+  /** Failures to dispose atom implementations and elements, all logged. */
+  errors: unknown[]
+}
+
 /**
  * A collection of registered, named resources. Resources within the same
  * `Domain` can call each other directly. When receiving or requesting
  * resources from other domains, a `Portal` must be traversed.
  */
-export class BasicDomain implements Domain {
+export class BasicDomain implements Domain, Disposable, AsyncDisposable {
+  /** Domain whose bindings this domain inherits, if any. */
+  parent?: BasicDomain
   /** Resources local to this domain. */
-  registry: Registry = new BasicRegistry()
+  registry: Registry = new IndexedRegistry()
   /** Resolver that only resolves directly from the domain's registry. */
-  internalResolver: Resolver = new RegistryResolver(this.registry)
+  internalResolver: Resolver
   /** Portals through which resources in this domain can look up and access resources in other domains. */
   egresses: Egress[] = []
   /** Portals through which resources or end users outside this domain can use resources inside this domain. */
   ingresses: Ingress[] = [new Ingress(this)]
   localIngress: Ingress = this.ingresses[0]
-  // TODO: default resolver that checks outPortals
-  resolver: Resolver = this.internalResolver
-  ingressResolver: Resolver = this.internalResolver
+  /** Resolver that checks the domain's registry, then its egresses. */
+  resolver: Resolver
+  ingressResolver: Resolver
+  /** Retry policy for atoms called within this domain, over the defaults. */
+  retryPolicy?: RetryOptions
+  /** Receives the span of each atom call made within this domain. */
+  spanExporter?: SpanExporter
+  /** Circuit breakers of the elements called within this domain, if any. */
+  circuitBreakers?: CircuitBreakerRegistry
+  /** Logging backend for contexts within this domain, if any. */
+  logger?: Logging
+  /** Level below which messages are dropped. */
+  logLevel: LogLevel
+  /** Per-name overrides of `logLevel`; the first matching rule applies. */
+  logLevels: LogLevelRule[]
+  /** Interceptors around atom calls made within this domain, in order. */
+  interceptors: InterceptorRegistration[] = []
+  /** Last known health of the elements of this domain. */
+  health: HealthMonitor
+  /** Live atom lifecycles within this domain. */
+  lifecycles = new Set<TrackedLifecycle>()
+  /** Memoized results of the cacheable bindings of this domain. */
+  resultCaches = new Set<ResultCache>()
+  /** Whether the domain is shutting down, refusing calls through ingresses. */
+  shuttingDown = false
+  /** Internal: aborts the calls still in flight at the shutdown deadline. */
+  _shutdownController = new AbortController()
+  /** Internal: the shutdown, once started. */
+  _shutdown?: Promise<ShutdownReport>
+  /** Internal: child domains created by `createChild`, until shut down. */
+  _children = new Set<BasicDomain>()
+  /** Internal: invalidation callbacks of lifecycles, by cached element. */
+  _elementWatchers = new Map<Element, Set<() => void>>()
+
+  constructor(options: BasicDomainOptions = {}) {
+    this.parent = options.parent
+    this.retryPolicy = options.retryPolicy
+    this.spanExporter = options.spanExporter
+    this.logger = options.logger
+    this.logLevel = options.logLevel ?? "info"
+    this.logLevels = options.logLevels ?? []
+    this.circuitBreakers =
+      options.circuitBreaker !== undefined
+        ? new CircuitBreakerRegistry(options.circuitBreaker)
+        : options.parent?.circuitBreakers
+    this.health = new HealthMonitor(options.healthCheckTimeout)
+    const strategy = options.resolutionStrategy ?? new FirstMatchStrategy()
+    this.internalResolver = new RegistryResolver(
+      this.registry,
+      undefined,
+      strategy,
+      this.circuitBreakers,
+      this.health
+    )
+    this.resolver = new DomainResolver(this)
+    // Local names are invisible from outside the domain
+    const ingressResolver = new RegistryResolver(
+      this.registry,
+      (registration) => !isLocalName(registration.name),
+      strategy,
+      this.circuitBreakers,
+      this.health
+    )
+    this.ingressResolver =
+      this.parent === undefined
+        ? ingressResolver
+        : new FallbackResolver([ingressResolver, this.parent.ingressResolver])
+    if (options.introspection === true) bindIntrospection(this)
+    if (options.healthEndpoint === true) {
+      this._bind(HealthNames.report, (_context, arg) =>
+        this.checkHealth(arg?.pattern)
+      )
+    }
+  }
+
+  /**
+   * Create a child of this domain, which inherits its bindings but resolves
+   * its own first, so that names can be overridden or added in the child
+   * without affecting this domain; e.g. to mock dependencies in tests, or
+   * to customize a domain per request or per tenant.
+   *
+   * The child inherits this domain's options unless overridden, and the
+   * interceptors it has at the time. Disposing the child, with `using` or
+   * `await using`, releases everything bound in it. Shutting down or
+   * disposing this domain does the same to its children first.
+   */
+  createChild(options: BasicDomainOptions = {}): BasicDomain {
+    const child = new BasicDomain({
+      retryPolicy: this.retryPolicy,
+      spanExporter: this.spanExporter,
+      logger: this.logger,
+      logLevel: this.logLevel,
+      logLevels: this.logLevels,
+      ...options,
+      parent: this
+    })
+    child.interceptors.push(...this.interceptors)
+    this._children.add(child)
+    return child
+  }
+
+  /**
+   * Shut the domain down at once, doing what `shutdown` does short of
+   * waiting: refuse calls through its ingresses, abort the calls in flight
+   * with a `ShutdownError`, dispose every atom lifecycle and unbind
+   * everything bound in the domain, after doing the same to its child
+   * domains. Elements, whose disposal is asynchronous, are only disposed by
+   * `shutdown`.
+   */
+  [Symbol.dispose]() {
+    for (const child of Array.from(this._children)) child[Symbol.dispose]()
+    this.parent?._children.delete(this)
+    this.shuttingDown = true
+    this._abortCalls()
+    for (const lifecycle of Array.from(this.lifecycles)) lifecycle.dispose()
+    this._unbindAll()
+  }
+
+  /** Shut the domain down gracefully; see `shutdown`. */
+  async [Symbol.asyncDispose]() {
+    await this.shutdown()
+  }
+
+  /**
+   * Aborted when the shutdown deadline passes, cancelling every call still
+   * in flight in the domain. It is also the signal of the root contexts of
+   * calls through the domain's ingresses.
+   */
+  get shutdownSignal(): AbortSignal {
+    return this._shutdownController.signal
+  }
+
+  /**
+   * Shut the domain down gracefully: stop accepting calls through its
+   * ingresses, wait for the calls in flight to finish until the deadline,
+   * then abort any that remain with a `ShutdownError`, dispose every
+   * cached atom implementation and every element bound in the domain, and
+   * unbind the elements. Child domains are shut down alongside, within the
+   * same deadline, and finish before this domain disposes anything, since
+   * they may be using its elements; their reports are merged into this
+   * one. Disposal failures are logged and reported rather than thrown.
+   *
+   * Shutting down again returns the outcome of the first shutdown.
+   */
+  shutdown(options: ShutdownOptions = {}): Promise<ShutdownReport> {
+    this._shutdown ??= this._shutDown(options.deadline ?? 10_000)
+    return this._shutdown
+  }
 
+  /** Internal: carry out `shutdown`. */
+  async _shutDown(deadline: number): Promise<ShutdownReport> {
+    this.shuttingDown = true
+    const children = Promise.all(
+      Array.from(this._children, (child) => child.shutdown({ deadline }))
+    )
+    const drain = () =>
+      Promise.all(Array.from(this.lifecycles, (lifecycle) => lifecycle.drain()))
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const drained = await Promise.race([
+      drain().then(() => true),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), deadline)
+      })
+    ])
+    clearTimeout(timer)
+    if (!drained) {
+      this._abortCalls()
+      await drain()
+    }
+
+    const errors: unknown[] = []
+    let childrenDrained = true
+    for (const report of await children) {
+      childrenDrained &&= report.drained
+      errors.push(...report.errors)
+    }
+    for (const lifecycle of Array.from(this.lifecycles)) {
+      errors.push(...(await lifecycle.disposeAsync(!drained)))
+    }
+    const log = this._createLogger([], undefined)
+    for (const { name, element } of this.registry.match({})) {
+      try {
+        await element[Symbol.asyncDispose]?.()
+      } catch (err) {
+        log?.warn({ err, name }, "Failed to dispose element")
+        errors.push(err)
+      }
+    }
+    this._unbindAll()
+    this.parent?._children.delete(this)
+    return { drained: drained && childrenDrained, errors }
+  }
+
+  /** Internal: abort the calls in flight with a `ShutdownError`. */
+  _abortCalls() {
+    if (this.shutdownSignal.aborted) return
+    this._shutdownController.abort(
+      new ShutdownError(this.createContext(undefined))
+    )
+  }
+
+  /** Internal: unbind everything bound in the domain. */
+  _unbindAll() {
+    for (const registration of this.registry.match({})) {
+      this.unbind(registration)
+    }
+  }
+
+  /**
+   * Bind a name to an element or function within this domain. Bindings
+   * marked as cacheable in `metadata` have their results memoized. Names
+   * whose `svc` has the reserved prefix are refused.
+   */
   bind<TArg, TResult>(
     name: TypedName<TArg, TResult>,
     element:
-      | NoInfer<AtomFunction<TArg, TResult>>
-      | NoInfer<Element<TArg, TResult>>
-  ): void {
-    if (!isElement(element)) {
-      this.registry.register(
-        name,
-        new FunctionElement(name, element as AtomFunction<TArg, TResult>)
+      | NoInfer<AtomImplFunction<TArg, TResult>>
+      | NoInfer<Element<TArg, TResult>>,
+    metadata?: BindMetadata
+  ): Binding {
+    if (isReservedName(name)) {
+      throw new Error(
+        `BasicDomain.bind(): the "${reservedNamePrefix}" svc prefix is reserved`
       )
-      return
     }
-    this.registry.register(name, element)
-    return
+    return this._bind(name, element, metadata)
+  }
+
+  /** Internal: bind a name like `bind`, including the built-in atoms. */
+  _bind<TArg, TResult>(
+    name: TypedName<TArg, TResult>,
+    element:
+      | NoInfer<AtomImplFunction<TArg, TResult>>
+      | NoInfer<Element<TArg, TResult>>,
+    metadata?: BindMetadata
+  ): Binding {
+    const baseElement = isElement(element)
+      ? element
+      : new FunctionElement(name, element as AtomImplFunction<TArg, TResult>)
+    let cache: ResultCache | undefined
+    if (metadata?.cache !== undefined) {
+      cache = new ResultCache(metadata.cache)
+      this.resultCaches.add(cache)
+    }
+    const registration = this.registry.register(
+      name,
+      cache ? new CachingElement(baseElement, cache) : baseElement,
+      metadata
+    )
+    // The binding is the registration itself, so that it can be unbound
+    return Object.assign(registration, {
+      [Symbol.dispose]: () => {
+        this.unbind(registration)
+      }
+    })
+  }
+
+  /**
+   * Add an interceptor around atom calls within this domain, after any added
+   * earlier. Disposing the result removes it again.
+   */
+  use(interceptor: Interceptor, options: InterceptorOptions = {}): Disposable {
+    const registration: InterceptorRegistration = { ...options, interceptor }
+    this.interceptors.push(registration)
+    return {
+      [Symbol.dispose]: () => {
+        const index = this.interceptors.indexOf(registration)
+        if (index !== -1) this.interceptors.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * Remove a registration from this domain. Lifecycles that have cached its
+   * element are invalidated, disposing their atom implementations, so that
+   * their next call resolves again. Returns `false` if it was not bound.
+   */
+  unbind(registration: Registration): boolean {
+    if (!this.registry.unregister(registration)) return false
+    if (registration.element instanceof CachingElement) {
+      this.resultCaches.delete(registration.element.cache)
+    }
+    const watchers = this._elementWatchers.get(registration.element)
+    if (watchers !== undefined) {
+      for (const onInvalidate of Array.from(watchers)) onInvalidate()
+    }
+    return true
+  }
+
+  /**
+   * Remove the memoized results of cacheable bindings whose names match
+   * `pattern`, returning how many were removed. Callers that change what a
+   * cacheable binding would return should invalidate its results.
+   */
+  invalidateResults(pattern: Name): number {
+    let count = 0
+    for (const cache of this.resultCaches) count += cache.invalidate(pattern)
+    return count
+  }
+
+  trackLifecycle(lifecycle: TrackedLifecycle): () => void {
+    this.lifecycles.add(lifecycle)
+    return () => {
+      this.lifecycles.delete(lifecycle)
+    }
+  }
+
+  /**
+   * Run the health checks of the elements bound in this domain whose names
+   * match `pattern`, and aggregate the results. Resolvers skip elements
+   * found unhealthy, where other matches exist, until they are checked again.
+   */
+  checkHealth(pattern: Name = {}): Promise<HealthReport> {
+    return this.health.check(this.registry.match(pattern))
+  }
+
+  /**
+   * Take a snapshot of the contents of this domain: its registrations,
+   * ingresses, egresses and live atom lifecycles.
+   */
+  describe(): DomainDescription {
+    return describeDomain(this)
+  }
+
+  /**
+   * Dry-run the resolution of `pattern`, reporting the registrations of this
+   * domain that match it and the name its resolver would pick.
+   */
+  explain(pattern: Name): Promise<ResolutionExplanation> {
+    return explainResolution(this, pattern)
+  }
+
+  watchElement(element: Element, onInvalidate: () => void): () => void {
+    let watchers = this._elementWatchers.get(element)
+    if (watchers === undefined) {
+      watchers = new Set()
+      this._elementWatchers.set(element, watchers)
+    }
+    watchers.add(onInvalidate)
+    // Inherited elements may be unbound from the parent
+    const unwatchParent = this.parent?.watchElement(element, onInvalidate)
+    return () => {
+      watchers.delete(onInvalidate)
+      if (watchers.size === 0) this._elementWatchers.delete(element)
+      unwatchParent?.()
+    }
+  }
+
+  /**
+   * Connect this domain to another domain, either directly via an `Ingress`
+   * of that domain or through a transport-specific `Egress`. Patterns that
+   * cannot be resolved locally will be resolved through the new `Egress`,
+   * after any egresses added earlier.
+   */
+  addEgress(target: Ingress | Egress): Egress {
+    const egress =
+      target instanceof Ingress ? new LocalEgress(this, target) : target
+    this.egresses.push(egress)
+    return egress
+  }
+
+  /**
+   * Internal: the logger for a new context, tagging messages with the name
+   * of the atom being run, the trace and span IDs, and the call depth.
+   */
+  _createLogger(
+    trace: TraceVector,
+    span: SpanContext | undefined
+  ): Logging | undefined {
+    if (this.logger === undefined) return undefined
+    const calls = trace.filter(isDomainCall)
+    const name = calls.at(-1)?.[1]
+    const tags = {
+      ...(name && { name }),
+      ...(span && { traceId: span.traceId, spanId: span.spanId }),
+      depth: calls.length
+    }
+    return createTaggedLogger(
+      this.logger,
+      tags,
+      logLevelFor(this.logLevels, name, this.logLevel)
+    )
   }
 
   createContext(
     parentContext: Context | undefined,
     resolver?: Resolver,
-    traceVector?: TraceVector
+    traceVector?: TraceVector,
+    signal?: AbortSignal,
+    span?: SpanContext,
+    metadata?: ContextMetadata
   ): Context {
     return new BaseContext(
       this,
       parentContext,
       resolver ?? this.resolver,
-      undefined,
-      traceVector
+      this._createLogger(
+        traceVector ?? parentContext?.trace ?? [],
+        span ?? parentContext?.span
+      ),
+      traceVector,
+      signal,
+      span,
+      metadata
     )
   }
 }
 
-type ContextSecurity = SerializableObject
+/** Options for `Ingress.externalize`. */
+export type ExternalizeOptions = FindOptions & {
+  /** Trace of a remote caller, which the new root context continues. */
+  trace?: TraceVector
+  /**
+   * W3C `traceparent` of a remote caller, whose span becomes the parent of
+   * the calls made through the atom.
+   */
+  traceparent?: string
+  /**
+   * Metadata about the caller, such as its `security` principal and roles,
+   * against which the ingress's policies are evaluated. It is recorded on
+   * the root context, and so readable by every atom down the call chain.
+   */
+  metadata?: ContextMetadata
+}
 
-export type ContextMetadata = {
-  security?: ContextSecurity
-  [key: string]: SerializableObject | undefined
+/** Options for constructing an `Ingress`. */
+export type IngressOptions = {
+  /** Policies deciding which callers may use which names, in order. */
+  policies?: IngressPolicy[]
+  /**
+   * Whether names not covered by any policy are allowed or denied.
+   * Defaults to `"allow"`.
+   */
+  defaultEffect?: "allow" | "deny"
 }
 
 /**
@@ -206,33 +845,156 @@ export type ContextMetadata = {
  */
 export class Ingress {
   domain: BasicDomain
+  /** Policies deciding which callers may use which names, in order. */
+  policies: IngressPolicy[]
+  /** Whether names not covered by any policy are allowed or denied. */
+  defaultEffect: "allow" | "deny"
 
-  constructor(domain: BasicDomain) {
+  constructor(domain: BasicDomain, options: IngressOptions = {}) {
     this.domain = domain
+    this.policies = options.policies ?? []
+    this.defaultEffect = options.defaultEffect ?? "allow"
   }
 
   /**
    * Create a handle to an `Atom` inside the domain that can be used from
    * outside the domain. Creates a new root context deriving from the given data
+   *
+   * The caller's `metadata` is checked against the ingress's policies, both
+   * for the requested pattern, before resolution, and for the name it
+   * resolves to.
+   *
+   * @throws AuthorizationError If the pattern is denied to the caller.
    */
   externalize<TArg, TResult>(
-    pattern: TypedName<TArg, TResult>
+    pattern: TypedName<TArg, TResult>,
+    options?: ExternalizeOptions
   ): Atom<TArg, TResult> {
+    const rootContext: Context = this.domain.createContext(
+      undefined,
+      new AuthorizingResolver(this.domain.ingressResolver, (name) => {
+        authorize(rootContext, this.policies, this.defaultEffect, name)
+      }),
+      (options?.trace ?? []).concat([[TraceEventType.INGRESS_CALL]]),
+      this.domain.shutdownSignal,
+      parseTraceparent(options?.traceparent),
+      options?.metadata
+    )
+    if (isLocalName(pattern)) throw new LocalityError(rootContext, pattern)
+    authorize(rootContext, this.policies, this.defaultEffect, pattern)
+    const lifecycle = new Lifecycle(
+      this.domain,
+      pattern,
+      rootContext,
+      options,
+      "inbound"
+    )
+
+    return Object.assign(
+      async (arg?: TArg, callOptions?: CallOptions) => {
+        if (this.domain.shuttingDown) throw new ShutdownError(rootContext)
+        checkSerializable(rootContext, "argument", arg)
+        const result = await lifecycle.run(arg, callOptions)
+        checkSerializable(rootContext, "result", result)
+        return result as TResult
+      },
+      {
+        [Symbol.dispose]: () => {
+          lifecycle.dispose()
+        },
+        [Symbol.asyncDispose]: async () => {
+          await lifecycle.disposeAsync()
+        },
+        requestedPattern: pattern
+      }
+    )
+  }
+
+  /**
+   * Resolve a pattern on behalf of a caller outside the domain, applying the
+   * same checks as `externalize`, so that callers learn nothing about names
+   * they may not use.
+   *
+   * @throws ShutdownError If the domain is shutting down.
+   * @throws AuthorizationError If the pattern, or the name it resolves to, is
+   * denied to the caller.
+   */
+  async resolve(
+    pattern: Name,
+    metadata?: ContextMetadata
+  ): Promise<Resolution | undefined> {
+    const context = this.domain.createContext(
+      undefined,
+      this.domain.ingressResolver,
+      undefined,
+      this.domain.shutdownSignal,
+      undefined,
+      metadata
+    )
+    if (this.domain.shuttingDown) throw new ShutdownError(context)
+    if (isLocalName(pattern)) throw new LocalityError(context, pattern)
+    authorize(context, this.policies, this.defaultEffect, pattern)
+    const resolver = new AuthorizingResolver(
+      this.domain.ingressResolver,
+      (name) => {
+        authorize(context, this.policies, this.defaultEffect, name)
+      }
+    )
+    return await resolver.resolve(pattern)
+  }
+
+  /**
+   * Create an `AtomImpl` through which an `Egress` of another domain can use
+   * an `Atom` inside this domain. Each call continues the trace of the
+   * calling context across the boundary, and records its return on that trace.
+   *
+   * Each call is checked against the ingress's policies with the metadata of
+   * the calling context, which is passed on to the contexts of the call.
+   */
+  connect<TArg, TResult>(
+    pattern: TypedName<TArg, TResult>,
+    options?: FindOptions
+  ): AtomImpl<TArg, TResult> {
     const rootContext = this.domain.createContext(
       undefined,
       this.domain.ingressResolver,
-      [[TraceEventType.INGRESS_CALL]]
+      undefined,
+      this.domain.shutdownSignal
+    )
+    if (isLocalName(pattern)) throw new LocalityError(rootContext, pattern)
+    const lifecycle = new Lifecycle(
+      this.domain,
+      pattern,
+      rootContext,
+      options,
+      "inbound"
     )
-    const lifecycle = new Lifecycle(this.domain, pattern, rootContext)
 
     return Object.assign(
-      (arg?: TArg) => {
-        return lifecycle.run(arg) as Promise<TResult>
+      async (context: Context, arg: TArg) => {
+        try {
+          if (this.domain.shuttingDown) throw new ShutdownError(context)
+          authorize(context, this.policies, this.defaultEffect, pattern)
+          checkSerializable(context, "argument", arg)
+          const result = await lifecycle.run(arg, {
+            trace: context.trace.concat([[TraceEventType.INGRESS_CALL]]),
+            signal: context.signal,
+            parentSpan: context.span,
+            metadata: context.metadata
+          })
+          checkSerializable(context, "result", result)
+          return result as TResult
+        } finally {
+          context.trace.push([TraceEventType.INGRESS_RETURN])
+        }
       },
       {
         [Symbol.dispose]: () => {
           lifecycle.dispose()
         },
+        [Symbol.asyncDispose]: async () => {
+          await lifecycle.disposeAsync()
+        },
         requestedPattern: pattern
       }
     )
@@ -241,6 +1003,88 @@ export class Ingress {
 
 /**
  * A portal through which resources inside of a domain can access resources
- * in other domains.
+ * in other domains. Each `Egress` leads to an `Ingress` of another domain,
+ * which may be in-process or reached through a transport.
  */
-export class Egress {}
+export abstract class Egress {
+  /** Domain whose resources use this egress. */
+  domain: BasicDomain
+
+  constructor(domain: BasicDomain) {
+    this.domain = domain
+  }
+
+  /**
+   * Resolve a pattern against the domain on the other side of this egress.
+   * The resulting element proxies calls across the boundary.
+   *
+   * @param metadata Metadata of the caller on whose behalf the pattern is
+   * resolved, if known, for the other side to judge the resolution by.
+   */
+  abstract resolve(
+    pattern: Name,
+    metadata?: ContextMetadata
+  ): Promise<Resolution | undefined>
+}
+
+/** An `Egress` leading directly to an `Ingress` of an in-process domain. */
+export class LocalEgress extends Egress {
+  /** Ingress of the other domain, through which calls are made. */
+  ingress: Ingress
+
+  constructor(domain: BasicDomain, ingress: Ingress) {
+    super(domain)
+    this.ingress = ingress
+  }
+
+  async resolve(pattern: Name): Promise<Resolution | undefined> {
+    const resolution =
+      await this.ingress.domain.ingressResolver.resolve(pattern)
+    if (resolution === undefined) return undefined
+    return {
+      name: resolution.name,
+      element: new EgressElement(this, resolution.name)
+    }
+  }
+}
+
+/**
+ * An `Element` standing in for a resource in another domain, whose atoms
+ * call through a `LocalEgress` to the matching `Ingress`.
+ */
+class EgressElement implements Element {
+  egress: LocalEgress
+  name: Name
+  constructor(egress: LocalEgress, name: Name) {
+    this.egress = egress
+    this.name = name
+  }
+  getAtom(
+    pattern: Name,
+    _context: Context
+  ): Promise<AtomImpl<unknown, unknown>> {
+    const remote = this.egress.ingress.connect(untyped_name(this.name))
+    return Promise.resolve(
+      Object.assign(
+        async (context: Context, arg: unknown) => {
+          context.trace.push([TraceEventType.EGRESS_CALL])
+          try {
+            return (await remote(context, arg)) as unknown
+          } finally {
+            context.trace.push([TraceEventType.EGRESS_RETURN])
+          }
+        },
+        {
+          [Symbol.dispose]: () => {
+            remote[Symbol.dispose]()
+          },
+          [Symbol.asyncDispose]: async () => {
+            await remote[Symbol.asyncDispose]?.()
+          },
+          requestedPattern: pattern,
+          element: this
+        }
+      )
+    )
+  }
+}
@@ -0,0 +1,159 @@
+import type {
+  AtomImpl,
+  Context,
+  Element,
+  Name,
+  Registration,
+  Resolution,
+  ResolutionStrategy
+} from "./core-types.js"
+import { disposeAtomImpl } from "./lifecycle.js"
+import { hashName } from "./object-hash.js"
+
+/** Selects the earliest matching registration. This is the default. */
+export class FirstMatchStrategy implements ResolutionStrategy {
+  select(_pattern: Name, candidates: Registration[]): Resolution {
+    return candidates[0]
+  }
+}
+
+/**
+ * Selects the registration most constrained by the pattern, that is, the
+ * one whose name has the fewest top-level fields the pattern leaves
+ * unconstrained. Ties go to the earliest registration.
+ */
+export class MostSpecificStrategy implements ResolutionStrategy {
+  select(pattern: Name, candidates: Registration[]): Resolution {
+    const unconstrained = (reg: Registration) =>
+      Object.keys(reg.name).filter((key) => !(key in pattern)).length
+    return candidates.reduce((best, reg) =>
+      unconstrained(reg) < unconstrained(best) ? reg : best
+    )
+  }
+}
+
+/**
+ * Selects the registration with the highest `priority` in its bind
+ * metadata. Ties go to the earliest registration.
+ */
+export class PriorityStrategy implements ResolutionStrategy {
+  select(_pattern: Name, candidates: Registration[]): Resolution {
+    return candidates.reduce((best, reg) =>
+      (reg.metadata.priority ?? 0) > (best.metadata.priority ?? 0) ? reg : best
+    )
+  }
+}
+
+/**
+ * Cycles through each set of matching registrations in turn, so patterns
+ * matching the same registrations share a rotation. Only the rotations of the
+ * `maxRotations` most recently used sets are remembered.
+ */
+export class RoundRobinStrategy implements ResolutionStrategy {
+  readonly sticky = false
+  readonly maxRotations: number
+  /**
+   * Internal: number of selections made so far, by hashed candidate set,
+   * least recently used first.
+   */
+  _counters = new Map<string, number>()
+
+  constructor(maxRotations = 1000) {
+    this.maxRotations = maxRotations
+  }
+
+  select(_pattern: Name, candidates: Registration[]): Resolution {
+    const key = candidateKey(candidates)
+    const count = this._counters.get(key) ?? 0
+    this._counters.delete(key)
+    this._counters.set(key, count + 1)
+    if (this._counters.size > this.maxRotations) {
+      for (const oldest of this._counters.keys()) {
+        this._counters.delete(oldest)
+        break
+      }
+    }
+    return candidates[count % candidates.length]
+  }
+
+  peek(_pattern: Name, candidates: Registration[]): Resolution {
+    const count = this._counters.get(candidateKey(candidates)) ?? 0
+    return candidates[count % candidates.length]
+  }
+}
+
+function candidateKey(candidates: Registration[]): string {
+  return candidates.map((reg) => hashName(reg.name)).join(",")
+}
+
+/** Selects a matching registration uniformly at random. */
+export class RandomStrategy implements ResolutionStrategy {
+  readonly sticky = false
+  select(_pattern: Name, candidates: Registration[]): Resolution {
+    return candidates[Math.floor(Math.random() * candidates.length)]
+  }
+}
+
+/**
+ * Selects the matching registration with the fewest calls currently in
+ * flight through atoms resolved by this strategy. Ties go to the earliest
+ * registration.
+ */
+export class LeastInFlightStrategy implements ResolutionStrategy {
+  readonly sticky = false
+  /** Internal: calls in flight, by element. */
+  _inFlight = new WeakMap<Element, number>()
+
+  /** Number of calls currently in flight to the given element. */
+  inFlight(element: Element): number {
+    return this._inFlight.get(element) ?? 0
+  }
+
+  select(_pattern: Name, candidates: Registration[]): Resolution {
+    const best = candidates.reduce((best, reg) =>
+      this.inFlight(reg.element) < this.inFlight(best.element) ? reg : best
+    )
+    return {
+      name: best.name,
+      element: new InFlightElement(this, best.element),
+      registration: best
+    }
+  }
+}
+
+/** Wraps an `Element` so that calls to its atoms are counted while in flight. */
+class InFlightElement implements Element {
+  strategy: LeastInFlightStrategy
+  inner: Element
+  name: Name
+  constructor(strategy: LeastInFlightStrategy, inner: Element) {
+    this.strategy = strategy
+    this.inner = inner
+    this.name = inner.name
+  }
+  async getAtom(
+    pattern: Name,
+    requestingContext: Context
+  ): Promise<AtomImpl<unknown, unknown>> {
+    const impl = await this.inner.getAtom(pattern, requestingContext)
+    const counts = this.strategy._inFlight
+    return Object.assign(
+      async (context: Context, arg: unknown) => {
+        counts.set(this.inner, this.strategy.inFlight(this.inner) + 1)
+        try {
+          return await impl(context, arg)
+        } finally {
+          counts.set(this.inner, this.strategy.inFlight(this.inner) - 1)
+        }
+      },
+      {
+        [Symbol.dispose]: () => {
+          impl[Symbol.dispose]()
+        },
+        [Symbol.asyncDispose]: () => disposeAtomImpl(impl),
+        requestedPattern: impl.requestedPattern,
+        element: impl.element ?? this.inner
+      }
+    )
+  }
+}
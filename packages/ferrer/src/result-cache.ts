@@ -0,0 +1,161 @@
+import type {
+  AtomImpl,
+  CachedResult,
+  Context,
+  Element,
+  HealthStatus,
+  Name,
+  ResultCacheOptions,
+  ResultStore
+} from "./core-types.js"
+import { disposeAtomImpl } from "./lifecycle.js"
+import { hashValue } from "./object-hash.js"
+import { matches } from "./pattern-matching.js"
+import { findUnserializable } from "./serializable.js"
+
+/**
+ * Compute the key under which the result of calling the element named `name`
+ * with `arg` is memoized, using the same canonical form as `hashName`.
+ */
+export function resultCacheKey(name: Name, arg: unknown): string {
+  return hashValue([name, arg])
+}
+
+/**
+ * The default `ResultStore`: an in-memory store that evicts the least
+ * recently used entry once it holds `maxSize` entries.
+ */
+export class LruResultStore implements ResultStore {
+  readonly maxSize: number
+  /** Internal: entries, from least to most recently used. */
+  _entries = new Map<string, CachedResult>()
+
+  constructor(maxSize: number = 1000) {
+    this.maxSize = maxSize
+  }
+
+  get(key: string): CachedResult | undefined {
+    const entry = this._entries.get(key)
+    if (entry !== undefined) {
+      // Re-insert to mark as most recently used
+      this._entries.delete(key)
+      this._entries.set(key, entry)
+    }
+    return entry
+  }
+
+  set(key: string, entry: CachedResult) {
+    this._entries.delete(key)
+    this._entries.set(key, entry)
+    for (const oldest of this._entries.keys()) {
+      if (this._entries.size <= this.maxSize) break
+      this._entries.delete(oldest)
+    }
+  }
+
+  delete(key: string): boolean {
+    return this._entries.delete(key)
+  }
+
+  entries(): Iterable<[string, CachedResult]> {
+    return Array.from(this._entries)
+  }
+}
+
+/** The memoized results of a single cacheable binding. */
+export class ResultCache {
+  readonly ttl: number
+  readonly store: ResultStore
+
+  constructor(options: ResultCacheOptions) {
+    this.ttl = options.ttl
+    this.store = options.store ?? new LruResultStore(options.maxSize)
+  }
+
+  /** The unexpired result of calling `name` with `arg`, if memoized. */
+  get(name: Name, arg: unknown): CachedResult | undefined {
+    const key = resultCacheKey(name, arg)
+    const entry = this.store.get(key)
+    if (entry === undefined) return undefined
+    if (entry.expiresAt <= Date.now()) {
+      this.store.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  set(name: Name, arg: unknown, value: unknown) {
+    this.store.set(resultCacheKey(name, arg), {
+      name,
+      value,
+      expiresAt: Date.now() + this.ttl
+    })
+  }
+
+  /**
+   * Remove the results of elements whose names match `pattern`, returning
+   * how many were removed.
+   */
+  invalidate(pattern: Name): number {
+    let count = 0
+    for (const [key, entry] of this.store.entries()) {
+      if (matches(entry.name, pattern) && this.store.delete(key)) count++
+    }
+    return count
+  }
+}
+
+/**
+ * An `Element` wrapping that of a cacheable binding, whose atoms return
+ * memoized results while they last. Only successful calls with serializable
+ * arguments are memoized; cached results are shared between callers, who
+ * must not mutate them.
+ */
+export class CachingElement<TArg = unknown, TResult = unknown>
+  implements Element<TArg, TResult>
+{
+  readonly element: Element<TArg, TResult>
+  readonly cache: ResultCache
+  checkHealth?: () => Promise<HealthStatus>
+
+  constructor(element: Element<TArg, TResult>, cache: ResultCache) {
+    this.element = element
+    this.cache = cache
+    this.checkHealth = element.checkHealth?.bind(element)
+  }
+
+  async [Symbol.asyncDispose]() {
+    await this.element[Symbol.asyncDispose]?.()
+  }
+
+  get name(): Name {
+    return this.element.name
+  }
+
+  async getAtom(
+    pattern: Name,
+    requestingContext: Context
+  ): Promise<AtomImpl<TArg, TResult>> {
+    const atomImpl = await this.element.getAtom(pattern, requestingContext)
+    const { cache, name } = this
+    return Object.assign(
+      async (context: Context, arg: TArg) => {
+        const cacheable =
+          arg === undefined || findUnserializable(arg) === undefined
+        const cached = cacheable ? cache.get(name, arg) : undefined
+        if (cached !== undefined) return cached.value as TResult
+        const result = await atomImpl(context, arg)
+        if (cacheable) cache.set(name, arg, result)
+        return result
+      },
+      {
+        [Symbol.dispose]: () => {
+          atomImpl[Symbol.dispose]()
+        },
+        [Symbol.asyncDispose]: () => disposeAtomImpl(atomImpl),
+        requestedPattern: pattern,
+        element: atomImpl.element
+      }
+    )
+  }
+}
@@ -1,16 +1,93 @@
+import type { Context, RetryOptions, RetryPolicy } from "./core-types.js"
+import { RetriesExhaustedError, isTransientError } from "./errors.js"
+
+/** The retry policy used where no other policy is specified. */
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 10,
+  initialDelay: 10,
+  maxDelay: 1000,
+  backoffFactor: 2,
+  jitter: 0.5,
+  deadline: Infinity,
+  isTransient: isTransientError
+}
+
+/**
+ * Tracks the attempts of a single atom call against a `RetryPolicy`,
+ * computing backoff delays and deciding when to give up.
+ */
 export class RetryController {
-  delay(): Promise<void> {
-    return Promise.resolve()
+  readonly policy: RetryPolicy
+  readonly errors: unknown[] = []
+  #startTime?: number
+
+  constructor(...policies: Array<RetryOptions | undefined>) {
+    const policy: Record<string, unknown> = { ...defaultRetryPolicy }
+    // Fields left undefined, e.g. from an optional config, keep the default
+    for (const options of policies) {
+      const entries: Array<[string, unknown]> = Object.entries(options ?? {})
+      for (const [key, value] of entries) {
+        if (value !== undefined) policy[key] = value
+      }
+    }
+    this.policy = policy as RetryPolicy
+  }
+
+  /** Milliseconds remaining before the deadline. */
+  remainingTime(): number {
+    if (this.#startTime === undefined) return this.policy.deadline
+    return this.policy.deadline - (Date.now() - this.#startTime)
+  }
+
+  /** The backoff delay before the next attempt, before clamping to the deadline. */
+  nextDelay(): number {
+    const retries = this.errors.length
+    if (retries === 0) return 0
+    const { initialDelay, backoffFactor, maxDelay, jitter } = this.policy
+    const backoff = Math.min(
+      maxDelay,
+      initialDelay * Math.pow(backoffFactor, retries - 1)
+    )
+    return backoff * (1 - jitter * Math.random())
+  }
+
+  /**
+   * Wait out the backoff before the next attempt, rejecting with the abort
+   * reason as soon as `signal` aborts.
+   */
+  delay(signal?: AbortSignal): Promise<void> {
+    this.#startTime ??= Date.now()
+    if (signal?.aborted === true) return Promise.reject(signal.reason as Error)
+    const ms = Math.max(0, Math.min(this.nextDelay(), this.remainingTime()))
+    if (ms === 0) return Promise.resolve()
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(signal?.reason as Error)
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort)
+        resolve()
+      }, ms)
+      signal?.addEventListener("abort", onAbort, { once: true })
+    })
   }
 
   shouldRetry(): boolean {
-    return true
+    return (
+      this.errors.length < this.policy.maxAttempts && this.remainingTime() > 0
+    )
   }
 
-  transientError(_err: Error) {}
+  isTransient(err: unknown): boolean {
+    return this.policy.isTransient(err)
+  }
+
+  transientError(err: unknown) {
+    this.errors.push(err)
+  }
 
-  combinedError(): Error {
-    // TODO: marshal and combine all errors
-    return new Error("RetryController.combinedError")
+  combinedError(context: Context): Error {
+    return new RetriesExhaustedError(context, this.errors)
   }
 }
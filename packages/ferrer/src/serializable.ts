@@ -0,0 +1,70 @@
+import { isPlainObject } from "@ferrer/utils"
+import type { Context } from "./core-types.js"
+import { SerializationError } from "./errors.js"
+
+/**
+ * Find the first part of a value that is not a `SerializableValue`, such as
+ * a class instance, function, cycle, `undefined`, `bigint` or non-finite
+ * number, returning its path and what is wrong with it.
+ */
+export function findUnserializable(
+  value: unknown,
+  path: string = "$",
+  ancestors: Set<object> = new Set()
+): { path: string; problem: string } | undefined {
+  if (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "boolean"
+  ) {
+    return undefined
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value)
+      ? undefined
+      : { path, problem: `non-finite number ${value}` }
+  }
+  if (typeof value !== "object") return { path, problem: typeof value }
+  if (ancestors.has(value)) return { path, problem: "cycle" }
+  if (!Array.isArray(value) && !isPlainObject(value)) {
+    const { constructor } = value as { constructor?: { name?: string } }
+    return {
+      path,
+      problem: `instance of class ${constructor?.name ?? "unknown"}`
+    }
+  }
+  ancestors.add(value)
+  try {
+    const entries = Array.isArray(value)
+      ? value.map((item, i) => [`${path}[${i}]`, item] as const)
+      : Object.entries(value).map(
+          ([key, item]) => [`${path}.${key}`, item] as const
+        )
+    for (const [itemPath, item] of entries) {
+      const found = findUnserializable(item, itemPath, ancestors)
+      if (found !== undefined) return found
+    }
+    return undefined
+  } finally {
+    ancestors.delete(value)
+  }
+}
+
+/**
+ * Check that the argument or result of a call crossing a domain boundary is
+ * serializable. An `undefined` argument or result as a whole is allowed, as
+ * it is how atoms without arguments or results are called.
+ *
+ * @throws SerializationError If any part of it is not.
+ */
+export function checkSerializable(
+  context: Context,
+  target: "argument" | "result",
+  value: unknown
+) {
+  if (value === undefined) return
+  const found = findUnserializable(value)
+  if (found !== undefined) {
+    throw new SerializationError(context, target, found.path, found.problem)
+  }
+}
@@ -0,0 +1,103 @@
+import { init } from "@paralleldrive/cuid2"
+import type {
+  Domain,
+  Name,
+  Span,
+  SpanContext,
+  SpanExporter
+} from "./core-types.js"
+
+const createTraceCuid = init({ length: 25 })
+const createSpanCuid = init({ length: 13 })
+
+/**
+ * Re-encode a cuid as a fixed number of hex digits, as required for the
+ * identifiers of W3C Trace Context.
+ */
+function cuidToHex(cuid: string, digits: number): string {
+  let value = 0n
+  for (const char of cuid) {
+    value = value * 36n + BigInt(parseInt(char, 36))
+  }
+  return value.toString(16).padStart(digits, "0").slice(-digits)
+}
+
+/** Generate a new 32-digit trace ID. */
+export function createTraceId(): string {
+  return cuidToHex(createTraceCuid(), 32)
+}
+
+/** Generate a new 16-digit span ID. */
+export function createSpanId(): string {
+  return cuidToHex(createSpanCuid(), 16)
+}
+
+/**
+ * Start a span for a call of the atom requested with `name`. The span
+ * continues the trace of `parent`, or begins a new trace if there is none.
+ */
+export function startSpan(name: Name, parent?: SpanContext): Span {
+  return {
+    traceId: parent?.traceId ?? createTraceId(),
+    spanId: createSpanId(),
+    parentSpanId: parent?.spanId,
+    sampled: parent?.sampled ?? true,
+    name,
+    startTime: Date.now()
+  }
+}
+
+/**
+ * End a span, recording the error it failed with if any, and hand it to
+ * the domain's exporter.
+ */
+export function endSpan(domain: Domain, span: Span, error?: unknown) {
+  span.endTime = Date.now()
+  if (error !== undefined) span.error = error
+  if (span.sampled) domain.spanExporter?.export(span)
+}
+
+const traceparentPattern = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/
+
+/**
+ * Format a span as the value of a W3C `traceparent` header, through which
+ * the span is propagated to another process.
+ */
+export function formatTraceparent(span: SpanContext): string {
+  return `00-${span.traceId}-${span.spanId}-${span.sampled ? "01" : "00"}`
+}
+
+/**
+ * Parse the value of a W3C `traceparent` header, returning `undefined` if
+ * it is absent or malformed.
+ */
+export function parseTraceparent(
+  traceparent: string | undefined
+): SpanContext | undefined {
+  const match = traceparentPattern.exec(traceparent?.trim() ?? "")
+  if (match === null) return undefined
+  const [, traceId, spanId, flags] = match
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 }
+}
+
+/**
+ * A `SpanExporter` that keeps every exported span in memory, for use in
+ * tests.
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  readonly spans: Span[] = []
+
+  export(span: Span) {
+    this.spans.push(span)
+  }
+
+  /** All spans of the given trace, in the order they ended. */
+  trace(traceId: string): Span[] {
+    return this.spans.filter((span) => span.traceId === traceId)
+  }
+
+  clear() {
+    this.spans.length = 0
+  }
+}
@@ -0,0 +1,108 @@
+import { PushableAsyncIterator, deferred, type Deferred } from "@ferrer/utils"
+import type { Atom, CallOptions, StreamAtom } from "./core-types.js"
+
+/**
+ * The consumer end of a call to a `StreamAtom`. Items are pulled from the
+ * producer only as the consumer asks for them, and terminating the stream
+ * with `return()` or `throw()` also terminates the producer.
+ */
+export class AtomStream<T> extends PushableAsyncIterator<T> {
+  /** Internal: the producer's iterator, once the atom has returned it. */
+  _source?: AsyncIterator<T>
+  /** Internal: resolved whenever the consumer asks for another item. */
+  _demand: Deferred<void> = deferred()
+
+  override next(): Promise<IteratorResult<T>> {
+    const result = super.next()
+    this._demand.resolve()
+    return result
+  }
+
+  override return(result?: T): Promise<IteratorResult<T>> {
+    this._stopSource()
+    return super.return(result)
+  }
+
+  override throw(error?: unknown): Promise<IteratorResult<T>> {
+    this._stopSource()
+    return super.throw(error)
+  }
+
+  _isRunning(): boolean {
+    return this._running
+  }
+
+  _stopSource() {
+    if (this._running) {
+      void this._source?.return?.()
+      this._demand.resolve()
+    }
+  }
+
+  /**
+   * Internal: pull items from the iterable produced by `open` into this
+   * stream until either end terminates.
+   */
+  async _pump(open: () => Promise<AsyncIterable<T>>): Promise<void> {
+    try {
+      const iterable = await open()
+      const source = iterable[Symbol.asyncIterator]()
+      this._source = source
+      // The consumer may have stopped while the atom was running
+      if (!this._isRunning()) {
+        await source.return?.()
+        return
+      }
+      while (this._isRunning()) {
+        // Wait for a consumer to ask before producing the next item
+        while (this._isRunning() && this._pullQueue.length === 0) {
+          this._demand = deferred()
+          await this._demand.promise
+        }
+        if (!this._isRunning()) return
+        const result = await source.next()
+        if (result.done ?? false) {
+          void super.return(result.value as T)
+        } else {
+          this.pushValue(result.value)
+        }
+      }
+    } catch (err) {
+      super.throw(err).catch(() => undefined)
+    }
+  }
+}
+
+/**
+ * Adapt an `Atom` whose result is an `AsyncIterable` into a `StreamAtom`.
+ * Disposing the stream atom disposes the underlying atom and stops any
+ * streams still open.
+ */
+export function streamAtom<TArg, TItem>(
+  atom: Atom<TArg, AsyncIterable<TItem>>
+): StreamAtom<TArg, TItem> {
+  const open = new Set<AtomStream<TItem>>()
+  const call = atom as unknown as (
+    arg?: TArg,
+    options?: CallOptions
+  ) => Promise<AsyncIterable<TItem>>
+
+  return Object.assign(
+    (arg?: TArg, options?: CallOptions) => {
+      const stream = new AtomStream<TItem>()
+      open.add(stream)
+      void stream
+        ._pump(() => call(arg, options))
+        .finally(() => open.delete(stream))
+      return stream
+    },
+    {
+      [Symbol.dispose]: () => {
+        for (const stream of open) void stream.return()
+        open.clear()
+        atom[Symbol.dispose]()
+      },
+      requestedPattern: atom.requestedPattern
+    }
+  )
+}
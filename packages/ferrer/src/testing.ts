@@ -0,0 +1,239 @@
+// ERM polyfills
+import "./erm.js"
+
+import type {
+  AtomImpl,
+  AtomImplFunction,
+  Context,
+  Element,
+  InterceptorOptions,
+  InvocationDirection,
+  Name,
+  TraceVector
+} from "./core-types.js"
+import { StubError } from "./errors.js"
+import { setGlobalDomain } from "./global.js"
+import { matches } from "./pattern-matching.js"
+import { BasicDomain, type BasicDomainOptions } from "./provider.js"
+
+/**
+ * Create a fresh domain for a test, sharing nothing with the global domain
+ * or any other test. Retries are made without backoff unless `options`
+ * says otherwise, so that tests of retry behavior run quickly.
+ */
+export function createTestDomain(
+  options: BasicDomainOptions = {}
+): BasicDomain {
+  return new BasicDomain({
+    ...options,
+    retryPolicy: { initialDelay: 0, jitter: 0, ...options.retryPolicy }
+  })
+}
+
+/**
+ * Make `domain` the global domain used by `bind` and `external` until the
+ * result is disposed, when the previous global domain is restored.
+ */
+export function isolateGlobalDomain(
+  domain: BasicDomain = createTestDomain()
+): { domain: BasicDomain } & Disposable {
+  const previous = setGlobalDomain(domain)
+  return {
+    domain,
+    [Symbol.dispose]: () => {
+      setGlobalDomain(previous)
+    }
+  }
+}
+
+/** An attempt at an atom call, as captured by a `CallRecorder`. */
+export type RecordedCall = {
+  /** The pattern requested by the caller. */
+  pattern: Name
+  /** The name the pattern resolved to. */
+  name: Name
+  arg: unknown
+  direction: InvocationDirection
+  /** Trace vector of the context in which the atom was executed. */
+  trace: TraceVector
+  outcome: "result" | "error"
+  /** The result of a successful call. */
+  result?: unknown
+  /** The error a failed call threw. */
+  error?: unknown
+}
+
+/**
+ * Captures every attempt at an atom call within a domain that reaches an
+ * element, by way of an interceptor. Disposing the recorder stops it.
+ */
+export class CallRecorder implements Disposable {
+  readonly calls: RecordedCall[] = []
+  /** Internal: the registration of the recording interceptor. */
+  _registration: Disposable
+
+  constructor(domain: BasicDomain, options: InterceptorOptions = {}) {
+    this._registration = domain.use(async (invocation, next) => {
+      const { pattern, name, arg, direction, context } = invocation
+      const call = { pattern, name, arg, direction, trace: context.trace }
+      try {
+        const result = await next()
+        this.calls.push({ ...call, outcome: "result", result })
+        return result
+      } catch (error) {
+        this.calls.push({ ...call, outcome: "error", error })
+        throw error
+      }
+    }, options)
+  }
+
+  /** The recorded calls to names matching `pattern`, oldest first. */
+  callsTo(pattern: Name): RecordedCall[] {
+    return this.calls.filter((call) => matches(call.name, pattern))
+  }
+
+  clear() {
+    this.calls.length = 0
+  }
+
+  [Symbol.dispose]() {
+    this._registration[Symbol.dispose]()
+  }
+}
+
+/** A stub that always returns `result`. */
+export function stubReturning<TArg, TResult>(
+  result: TResult
+): AtomImplFunction<TArg, TResult> {
+  return () => Promise.resolve(result)
+}
+
+/**
+ * A stub that always fails, by default with a non-transient `StubError`.
+ */
+export function stubFailing<TArg, TResult>(
+  error?: (context: Context) => unknown
+): AtomImplFunction<TArg, TResult> {
+  return (context) =>
+    Promise.reject(
+      error === undefined
+        ? new StubError(context, "Stub failure", false)
+        : error(context)
+    )
+}
+
+/**
+ * A stub that fails its first `failures` calls, by default with a transient
+ * `StubError`, and returns `result` from then on.
+ */
+export function stubFailingTimes<TArg, TResult>(
+  failures: number,
+  result: TResult,
+  error?: (context: Context, attempt: number) => unknown
+): AtomImplFunction<TArg, TResult> {
+  let calls = 0
+  return (context) => {
+    calls++
+    if (calls > failures) return Promise.resolve(result)
+    return Promise.reject(
+      error === undefined
+        ? new StubError(context, `Stub failure ${calls} of ${failures}`)
+        : error(context, calls)
+    )
+  }
+}
+
+/**
+ * An `Element` that counts the atom implementations acquired from it and
+ * how many of them have been disposed, for testing the disposal behavior of
+ * atom lifecycles.
+ */
+export class TrackingElement<TArg = unknown, TResult = unknown>
+  implements Element<TArg, TResult>
+{
+  readonly name: Name
+  readonly fn: AtomImplFunction<TArg, TResult>
+  acquired = 0
+  disposed = 0
+
+  constructor(name: Name, fn: AtomImplFunction<TArg, TResult>) {
+    this.name = name
+    this.fn = fn
+  }
+
+  /** How many acquired atom implementations are yet to be disposed. */
+  get live(): number {
+    return this.acquired - this.disposed
+  }
+
+  getAtom(pattern: Name, _context: Context): Promise<AtomImpl<TArg, TResult>> {
+    this.acquired++
+    let disposed = false
+    return Promise.resolve(
+      Object.assign((context: Context, arg: TArg) => this.fn(context, arg), {
+        [Symbol.dispose]: () => {
+          if (disposed) return
+          disposed = true
+          this.disposed++
+        },
+        requestedPattern: pattern
+      })
+    )
+  }
+}
+
+/** Expected attempts at calls to some names, for `assertAttempts`. */
+export type ExpectedAttempts = {
+  /** Total number of attempts. */
+  attempts?: number
+  /** Number of attempts that failed. */
+  failures?: number
+  /** Whether the last attempt succeeded. */
+  succeeded?: boolean
+}
+
+/**
+ * Assert that the attempts recorded at calls to names matching `pattern`
+ * are as expected, e.g. that a call was retried twice before succeeding.
+ *
+ * @throws Error Describing the recorded attempts otherwise.
+ */
+export function assertAttempts(
+  recorder: CallRecorder,
+  pattern: Name,
+  expected: ExpectedAttempts
+) {
+  const calls = recorder.callsTo(pattern)
+  const actual = {
+    attempts: calls.length,
+    failures: calls.filter((call) => call.outcome === "error").length,
+    succeeded: calls.at(-1)?.outcome === "result"
+  }
+  for (const key of ["attempts", "failures", "succeeded"] as const) {
+    if (expected[key] !== undefined && expected[key] !== actual[key]) {
+      throw new Error(
+        `Expected ${key} of ${JSON.stringify(pattern)} to be ${String(
+          expected[key]
+        )}, but was ${String(actual[key])}`
+      )
+    }
+  }
+}
+
+/**
+ * Assert that every atom implementation acquired from `element` has been
+ * disposed, e.g. after disposing the atoms using it or unbinding it.
+ *
+ * @throws Error Stating how many remain otherwise.
+ */
+export function assertAllDisposed(
+  element: Pick<TrackingElement, "name" | "acquired" | "live">
+) {
+  if (element.live !== 0) {
+    throw new Error(
+      `Expected every atom implementation of ${JSON.stringify(
+        element.name
+      )} to be disposed, but ${element.live} of ${element.acquired} remain`
+    )
+  }
+}
@@ -0,0 +1,483 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import { isPlainObject } from "@ferrer/utils"
+import {
+  TraceEventType,
+  type AtomImpl,
+  type Context,
+  type ContextMetadata,
+  type ContextSecurity,
+  type Element,
+  type Name,
+  type Resolution,
+  type TraceVector,
+  untyped_name
+} from "../core-types.js"
+import {
+  marshalError,
+  unmarshalError,
+  type MarshalledError
+} from "../error-marshalling.js"
+import { TransportError, UnresolvedPatternError } from "../errors.js"
+import { matches } from "../pattern-matching.js"
+import { Egress, type BasicDomain, type Ingress } from "../provider.js"
+import { checkSerializable } from "../serializable.js"
+import { formatTraceparent } from "../spans.js"
+
+/** Error codes used in JSON-RPC error responses. */
+export enum JsonRpcErrorCode {
+  PARSE_ERROR = -32700,
+  INVALID_REQUEST = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INVALID_PARAMS = -32602,
+  /** The call was made, but failed; `data` describes the error. */
+  CALL_FAILED = -32000
+}
+
+export type JsonRpcId = string | number | null
+
+export type JsonRpcRequest = {
+  jsonrpc: "2.0"
+  id: JsonRpcId
+  method: string
+  params?: unknown
+}
+
+export type JsonRpcError = {
+  code: JsonRpcErrorCode
+  message: string
+  data?: MarshalledError
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: JsonRpcId; result: unknown }
+  | { jsonrpc: "2.0"; id: JsonRpcId; error: JsonRpcError }
+
+/** Result of the `ferrer.resolve` method. */
+export type HttpResolveResult = { name: Name | null }
+
+/** Result of the `ferrer.call` method. */
+export type HttpCallResult = { value: unknown; trace: TraceVector }
+
+export type HttpIngressOptions = {
+  /**
+   * Patterns of the names that may be used over HTTP. A name is exposed
+   * if it matches any of these patterns; nothing is exposed by default.
+   */
+  expose: Name[]
+  /** Maximum size of a request body, in bytes. Defaults to 1 MiB. */
+  maxBodySize?: number
+  /** Whether error stack traces are included in responses. */
+  exposeStacks?: boolean
+  /**
+   * Decide on whose behalf a request runs, given the `security` its client
+   * claims, if any, and the request itself, e.g. to verify a token in its
+   * headers. The result is checked against the ingress's policies and
+   * recorded on the contexts of the call. By default no claim is trusted,
+   * and every request runs on behalf of an anonymous caller.
+   */
+  authenticate?: (
+    claimed: ContextSecurity | undefined,
+    request: IncomingMessage | undefined
+  ) => ContextSecurity | undefined | Promise<ContextSecurity | undefined>
+}
+
+/**
+ * Serves an `Ingress` over HTTP using JSON-RPC 2.0, so that an `HttpEgress`
+ * in another process can resolve and call the exposed atoms of its domain.
+ * Requests are `POST`ed JSON-RPC objects with the methods `ferrer.resolve`
+ * (params `{ pattern, security }`) and `ferrer.call` (params
+ * `{ pattern, arg, trace, security }`), where `security` is what the client
+ * claims about its caller, trusted only as far as `authenticate` decides.
+ *
+ * Use `handler` as a request listener for a Node `http` server.
+ */
+export class HttpIngressServer {
+  ingress: Ingress
+  options: HttpIngressOptions
+
+  constructor(ingress: Ingress, options: HttpIngressOptions) {
+    this.ingress = ingress
+    this.options = options
+  }
+
+  /** Request listener for `http.createServer`. */
+  handler = (request: IncomingMessage, response: ServerResponse) => {
+    this._handle(request, response).catch(() => {
+      if (response.headersSent) response.end()
+      else response.writeHead(500).end()
+    })
+  }
+
+  async _handle(request: IncomingMessage, response: ServerResponse) {
+    if (request.method !== "POST") {
+      response.writeHead(405, { Allow: "POST" }).end()
+      return
+    }
+    let body: string
+    try {
+      body = await readBody(request, this.options.maxBodySize ?? 1 << 20)
+    } catch (err) {
+      if (!(err instanceof BodyTooLargeError)) throw err
+      response.writeHead(413).end()
+      return
+    }
+    const { traceparent } = request.headers
+    const result = await this.dispatch(
+      body,
+      typeof traceparent === "string" ? traceparent : undefined,
+      request
+    )
+    response
+      .writeHead(200, { "Content-Type": "application/json" })
+      .end(JSON.stringify(result))
+  }
+
+  /**
+   * Handle the body of a JSON-RPC request.
+   *
+   * @param traceparent The request's W3C `traceparent` header, if any.
+   * @param request The HTTP request, if any, passed on to `authenticate`.
+   */
+  async dispatch(
+    body: string,
+    traceparent?: string,
+    request?: IncomingMessage
+  ): Promise<JsonRpcResponse> {
+    let rpcRequest: unknown
+    try {
+      rpcRequest = JSON.parse(body)
+    } catch (err) {
+      return rpcError(null, JsonRpcErrorCode.PARSE_ERROR, "Parse error")
+    }
+    const candidate = rpcRequest as { jsonrpc?: unknown; method?: unknown }
+    if (
+      !isPlainObject(rpcRequest) ||
+      candidate.jsonrpc !== "2.0" ||
+      typeof candidate.method !== "string"
+    ) {
+      return rpcError(null, JsonRpcErrorCode.INVALID_REQUEST, "Invalid request")
+    }
+    const { id, method, params } = rpcRequest as JsonRpcRequest
+    if (!isPlainObject(params) || !isPlainObject((params as Name).pattern)) {
+      return rpcError(id, JsonRpcErrorCode.INVALID_PARAMS, "Invalid params")
+    }
+    const { pattern, arg, trace, security } = params as {
+      pattern: Name
+      arg?: unknown
+      trace?: unknown
+      security?: unknown
+    }
+    if (
+      (trace !== undefined && !isTraceVector(trace)) ||
+      (security !== undefined && !isPlainObject(security))
+    ) {
+      return rpcError(id, JsonRpcErrorCode.INVALID_PARAMS, "Invalid params")
+    }
+
+    switch (method) {
+      case "ferrer.resolve":
+        try {
+          const metadata = await this._authenticate(
+            security as ContextSecurity | undefined,
+            request
+          )
+          const resolution = await this._resolveExposed(pattern, metadata)
+          const result: HttpResolveResult = { name: resolution?.name ?? null }
+          return { jsonrpc: "2.0", id, result }
+        } catch (err) {
+          return this._callFailed(id, err)
+        }
+      case "ferrer.call":
+        try {
+          const metadata = await this._authenticate(
+            security as ContextSecurity | undefined,
+            request
+          )
+          const resolution = await this._resolveExposed(pattern, metadata)
+          if (resolution === undefined) {
+            throw new UnresolvedPatternError(
+              this.ingress.domain.createContext(undefined),
+              pattern
+            )
+          }
+          using atom = this.ingress.externalize(untyped_name(resolution.name), {
+            trace: trace ?? [],
+            traceparent,
+            metadata
+          })
+          const value: unknown = await atom(arg)
+          const result: HttpCallResult = {
+            value,
+            trace: [[TraceEventType.INGRESS_RETURN]]
+          }
+          return { jsonrpc: "2.0", id, result }
+        } catch (err) {
+          return this._callFailed(id, err)
+        }
+      default:
+        return rpcError(
+          id,
+          JsonRpcErrorCode.METHOD_NOT_FOUND,
+          "Method not found"
+        )
+    }
+  }
+
+  /** Internal: the response to a request that failed with `err`. */
+  _callFailed(id: JsonRpcId, err: unknown): JsonRpcResponse {
+    const data = marshalError(err, {
+      stacks: this.options.exposeStacks === true
+    })
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: { code: JsonRpcErrorCode.CALL_FAILED, message: data.message, data }
+    }
+  }
+
+  /** Internal: the metadata of the caller, as far as it is trusted. */
+  async _authenticate(
+    claimed: ContextSecurity | undefined,
+    request: IncomingMessage | undefined
+  ): Promise<ContextMetadata> {
+    const security = await this.options.authenticate?.(claimed, request)
+    return security === undefined ? {} : { security }
+  }
+
+  /**
+   * Internal: resolve a pattern through the ingress on behalf of the caller,
+   * only if the resolved name is exposed.
+   */
+  async _resolveExposed(
+    pattern: Name,
+    metadata?: ContextMetadata
+  ): Promise<Resolution | undefined> {
+    const resolution = await this.ingress.resolve(pattern, metadata)
+    if (
+      resolution !== undefined &&
+      this.options.expose.some((exposed) => matches(resolution.name, exposed))
+    ) {
+      return resolution
+    }
+    return undefined
+  }
+}
+
+function rpcError(
+  id: JsonRpcId,
+  code: JsonRpcErrorCode,
+  message: string
+): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, error: { code, message } }
+}
+
+/** Whether a server's response is a well-formed JSON-RPC response. */
+function isJsonRpcResponse(body: unknown): body is JsonRpcResponse {
+  if (!isPlainObject(body)) return false
+  const candidate = body as { jsonrpc?: unknown; error?: unknown }
+  if (candidate.jsonrpc !== "2.0") return false
+  if (!("error" in candidate)) return "result" in candidate
+  const error = candidate.error as { code?: unknown; message?: unknown }
+  return (
+    isPlainObject(error) &&
+    typeof error.code === "number" &&
+    typeof error.message === "string"
+  )
+}
+
+/** Whether a client-supplied trace is a well-formed `TraceVector`. */
+function isTraceVector(trace: unknown): trace is TraceVector {
+  return (
+    Array.isArray(trace) &&
+    trace.every((event: unknown) => {
+      if (!Array.isArray(event)) return false
+      const [type, name] = event as unknown[]
+      if (type === TraceEventType.DOMAIN_CALL) {
+        return event.length === 2 && isPlainObject(name)
+      }
+      return (
+        event.length === 1 &&
+        (type === TraceEventType.INGRESS_CALL ||
+          type === TraceEventType.INGRESS_RETURN ||
+          type === TraceEventType.EGRESS_CALL ||
+          type === TraceEventType.EGRESS_RETURN)
+      )
+    })
+  )
+}
+
+/** Thrown by `readBody` when a request body exceeds the maximum size. */
+class BodyTooLargeError extends Error {}
+
+async function readBody(request: IncomingMessage, maxSize: number) {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length
+    if (size > maxSize) {
+      throw new BodyTooLargeError(`Request body exceeds ${maxSize} bytes`)
+    }
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString("utf8")
+}
+
+export type HttpEgressOptions = {
+  /** URL of the `HttpIngressServer` to call. */
+  url: string | URL
+  /** Additional headers sent with each request, e.g. for authentication. */
+  headers?: Record<string, string>
+  /** `fetch` implementation to use; defaults to the global `fetch`. */
+  fetch?: typeof fetch
+}
+
+/**
+ * An `Egress` that reaches the `Ingress` of a domain in another process
+ * through an `HttpIngressServer`. Calls claim the `security` of their
+ * caller, which the server trusts only as far as its `authenticate` option
+ * decides; credentials for it can be sent in `headers`.
+ */
+export class HttpEgress extends Egress {
+  options: HttpEgressOptions
+  _nextId = 1
+
+  constructor(domain: BasicDomain, options: HttpEgressOptions) {
+    super(domain)
+    this.options = options
+  }
+
+  /** Internal: make a JSON-RPC request, returning its result. */
+  async _rpc(
+    context: Context,
+    method: string,
+    params: {
+      pattern: Name
+      arg?: unknown
+      trace?: TraceVector
+      security?: ContextSecurity
+    }
+  ): Promise<unknown> {
+    const { url, headers } = this.options
+    const fetchFn = this.options.fetch ?? fetch
+    const request: JsonRpcRequest = {
+      jsonrpc: "2.0",
+      id: this._nextId++,
+      method,
+      params
+    }
+    let response: Response
+    try {
+      response = await fetchFn(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(context.span && { traceparent: formatTraceparent(context.span) }),
+          ...headers
+        },
+        body: JSON.stringify(request),
+        signal: context.signal
+      })
+    } catch (err) {
+      // An aborted call is not a transport failure, and must not be retried
+      context.signal?.throwIfAborted()
+      throw new TransportError(
+        context,
+        `HttpEgress: request to ${String(url)} failed: ${String(err)}`
+      )
+    }
+    if (!response.ok) {
+      throw new TransportError(
+        context,
+        `HttpEgress: ${String(url)} responded with HTTP ${response.status}`,
+        response.status >= 500
+      )
+    }
+    let body: unknown
+    try {
+      body = await response.json()
+    } catch (err) {
+      context.signal?.throwIfAborted()
+      throw new TransportError(
+        context,
+        `HttpEgress: ${String(url)} responded with invalid JSON: ${String(
+          err
+        )}`,
+        false
+      )
+    }
+    if (!isJsonRpcResponse(body)) {
+      throw new TransportError(
+        context,
+        `HttpEgress: ${String(
+          url
+        )} responded with an invalid JSON-RPC response`,
+        false
+      )
+    }
+    if ("error" in body) {
+      if (body.error.data !== undefined) {
+        throw unmarshalError(context, body.error.data)
+      }
+      throw new TransportError(
+        context,
+        `HttpEgress: ${body.error.message} (${body.error.code})`,
+        false
+      )
+    }
+    return body.result
+  }
+
+  async resolve(
+    pattern: Name,
+    metadata?: ContextMetadata
+  ): Promise<Resolution | undefined> {
+    const result = (await this._rpc(
+      this.domain.createContext(undefined),
+      "ferrer.resolve",
+      { pattern, security: metadata?.security }
+    )) as HttpResolveResult
+    if (result.name === null) return undefined
+    return { name: result.name, element: new HttpElement(this, result.name) }
+  }
+}
+
+/** An `Element` standing in for a resource behind an `HttpEgress`. */
+class HttpElement implements Element {
+  egress: HttpEgress
+  name: Name
+  constructor(egress: HttpEgress, name: Name) {
+    this.egress = egress
+    this.name = name
+  }
+  getAtom(
+    pattern: Name,
+    _context: Context
+  ): Promise<AtomImpl<unknown, unknown>> {
+    return Promise.resolve(
+      Object.assign(
+        async (context: Context, arg: unknown) => {
+          context.trace.push([TraceEventType.EGRESS_CALL])
+          try {
+            checkSerializable(context, "argument", arg)
+            const result = (await this.egress._rpc(context, "ferrer.call", {
+              pattern: this.name,
+              arg,
+              trace: context.trace,
+              security: context.metadata.security
+            })) as HttpCallResult
+            context.trace.push(...result.trace)
+            return result.value
+          } finally {
+            context.trace.push([TraceEventType.EGRESS_RETURN])
+          }
+        },
+        {
+          // Calls are stateless, so there is nothing to release
+          [Symbol.dispose]: () => {},
+          requestedPattern: pattern,
+          element: this
+        }
+      )
+    )
+  }
+}
@@ -0,0 +1,352 @@
+import { deferred, type Deferred } from "@ferrer/utils"
+import {
+  TraceEventType,
+  type AtomImpl,
+  type Context,
+  type ContextMetadata,
+  type ContextSecurity,
+  type Element,
+  type Name,
+  type Resolution,
+  type TraceVector,
+  untyped_name
+} from "../core-types.js"
+import {
+  marshalError,
+  unmarshalError,
+  type MarshalledError
+} from "../error-marshalling.js"
+import { EarlyDisposalError } from "../errors.js"
+import { Egress, type BasicDomain, type Ingress } from "../provider.js"
+import { checkSerializable } from "../serializable.js"
+import { formatTraceparent, parseTraceparent } from "../spans.js"
+
+/**
+ * The subset of the `worker_threads` `MessagePort` API used by the
+ * message port transport. `Worker` and `parentPort` also satisfy it.
+ */
+export interface MessagePortLike {
+  postMessage(message: unknown): void
+  on(event: "message", listener: (message: unknown) => void): unknown
+  off(event: "message", listener: (message: unknown) => void): unknown
+}
+
+/** Messages sent from a `MessagePortEgress` to a `MessagePortServer`. */
+export type PortRequest =
+  | {
+      type: "resolve"
+      id: number
+      pattern: Name
+      /** Security of the caller, if any. */
+      security?: ContextSecurity
+    }
+  | { type: "connect"; handle: number; name: Name }
+  | {
+      type: "call"
+      id: number
+      handle: number
+      arg: unknown
+      trace: TraceVector
+      /** W3C `traceparent` of the calling span, if any. */
+      traceparent?: string
+      /** Security of the caller, if any. */
+      security?: ContextSecurity
+    }
+  | { type: "dispose"; handle: number }
+
+/** Messages sent from a `MessagePortServer` back to a `MessagePortEgress`. */
+export type PortResponse =
+  | { type: "resolved"; id: number; name: Name | null }
+  | { type: "result"; id: number; value: unknown; trace: TraceVector }
+  | { type: "error"; id: number; error: MarshalledError; trace: TraceVector }
+
+/**
+ * Serves an `Ingress` over a `MessagePort`, so that a `MessagePortEgress`
+ * on the other end of the port can resolve and call atoms in its domain.
+ *
+ * Both ends of a port belong to the same application, so the `security` of
+ * each caller is trusted as sent: the ingress's policies judge calls by it,
+ * and atoms further down the call chain can read it.
+ */
+export class MessagePortServer implements Disposable {
+  ingress: Ingress
+  port: MessagePortLike
+  /** Internal: atoms connected on behalf of the remote end, by handle. */
+  _atoms = new Map<number, AtomImpl<unknown, unknown>>()
+  /** Internal: why connections were refused, by handle. */
+  _refusals = new Map<number, unknown>()
+
+  constructor(ingress: Ingress, port: MessagePortLike) {
+    this.ingress = ingress
+    this.port = port
+    port.on("message", this._listener)
+  }
+
+  _listener = (message: unknown) => {
+    void this._receive(message as PortRequest)
+  }
+
+  async _receive(request: PortRequest): Promise<void> {
+    const domain = this.ingress.domain
+    switch (request.type) {
+      case "resolve": {
+        const { id } = request
+        try {
+          const resolution = await this.ingress.resolve(
+            request.pattern,
+            request.security === undefined ? {} : { security: request.security }
+          )
+          this._respond({
+            type: "resolved",
+            id,
+            name: resolution?.name ?? null
+          })
+        } catch (err) {
+          this._respond({
+            type: "error",
+            id,
+            error: marshalError(err),
+            trace: []
+          })
+        }
+        return
+      }
+      case "connect":
+        try {
+          this._atoms.set(
+            request.handle,
+            this.ingress.connect(untyped_name(request.name))
+          )
+        } catch (err) {
+          // Refused, e.g. for a local name; calls on the handle fail with
+          // the reason
+          this._refusals.set(request.handle, err)
+        }
+        return
+      case "call": {
+        const { id, trace } = request
+        const base = trace.length
+        const context = domain.createContext(
+          undefined,
+          domain.ingressResolver,
+          trace,
+          undefined,
+          parseTraceparent(request.traceparent),
+          request.security === undefined ? {} : { security: request.security }
+        )
+        try {
+          if (this._refusals.has(request.handle)) {
+            throw this._refusals.get(request.handle)
+          }
+          const atom = this._atoms.get(request.handle)
+          if (atom === undefined) {
+            throw new EarlyDisposalError(
+              context,
+              `MessagePortServer: no atom connected for handle ${request.handle}`
+            )
+          }
+          const value = await atom(context, request.arg)
+          this._respond({ type: "result", id, value, trace: trace.slice(base) })
+        } catch (err) {
+          this._respond({
+            type: "error",
+            id,
+            error: marshalError(err),
+            trace: trace.slice(base)
+          })
+        }
+        return
+      }
+      case "dispose":
+        this._atoms.get(request.handle)?.[Symbol.dispose]()
+        this._atoms.delete(request.handle)
+        this._refusals.delete(request.handle)
+        return
+    }
+  }
+
+  _respond(response: PortResponse) {
+    this.port.postMessage(response)
+  }
+
+  /** Stop serving the port and dispose every connected atom. */
+  [Symbol.dispose]() {
+    this.port.off("message", this._listener)
+    for (const atom of this._atoms.values()) atom[Symbol.dispose]()
+    this._atoms.clear()
+    this._refusals.clear()
+  }
+}
+
+/**
+ * An `Egress` that reaches the `Ingress` of another domain, usually in
+ * another thread, through a `MessagePortServer` on the other end of a
+ * `MessagePort`. Arguments and results must be structured-cloneable.
+ */
+export class MessagePortEgress extends Egress implements Disposable {
+  port: MessagePortLike
+  /** Internal: requests awaiting a response, by id. */
+  _pending = new Map<number, Deferred<PortResponse>>()
+  _nextId = 1
+  _nextHandle = 1
+  /** Internal: whether the egress has been disposed. */
+  _disposed = false
+
+  constructor(domain: BasicDomain, port: MessagePortLike) {
+    super(domain)
+    this.port = port
+    port.on("message", this._listener)
+  }
+
+  _listener = (message: unknown) => {
+    const response = message as PortResponse
+    const pending = this._pending.get(response.id)
+    if (pending !== undefined) {
+      this._pending.delete(response.id)
+      pending.resolve(response)
+    }
+  }
+
+  /**
+   * Internal: send a request and await its response, unless the egress is
+   * disposed or the context is aborted first.
+   */
+  async _request(
+    context: Context,
+    request: PortRequest & { id: number }
+  ): Promise<PortResponse> {
+    if (this._disposed) {
+      throw new EarlyDisposalError(context, "MessagePortEgress was disposed")
+    }
+    const { signal } = context
+    signal?.throwIfAborted()
+    const pending = deferred<PortResponse>()
+    const onAbort = () => {
+      this._pending.delete(request.id)
+      pending.reject(signal?.reason)
+    }
+    signal?.addEventListener("abort", onAbort)
+    this._pending.set(request.id, pending)
+    this.port.postMessage(request)
+    try {
+      return await pending.promise
+    } finally {
+      signal?.removeEventListener("abort", onAbort)
+    }
+  }
+
+  async resolve(
+    pattern: Name,
+    metadata?: ContextMetadata
+  ): Promise<Resolution | undefined> {
+    const context = this.domain.createContext(undefined)
+    const response = await this._request(context, {
+      type: "resolve",
+      id: this._nextId++,
+      pattern,
+      security: metadata?.security
+    })
+    switch (response.type) {
+      case "resolved":
+        return response.name === null
+          ? undefined
+          : {
+              name: response.name,
+              element: new MessagePortElement(this, response.name)
+            }
+      case "error":
+        throw unmarshalError(context, response.error)
+      case "result":
+        throw new Error("MessagePortEgress.resolve(): unexpected response")
+    }
+  }
+
+  /** Internal: connect a remote atom, returning its handle. */
+  _connect(name: Name): number {
+    const handle = this._nextHandle++
+    if (this._disposed) return handle
+    this.port.postMessage({ type: "connect", handle, name } as PortRequest)
+    return handle
+  }
+
+  /** Internal: call a connected remote atom. */
+  async _call(context: Context, handle: number, arg: unknown) {
+    const response = await this._request(context, {
+      type: "call",
+      id: this._nextId++,
+      handle,
+      arg,
+      trace: context.trace,
+      traceparent: context.span && formatTraceparent(context.span),
+      security: context.metadata.security
+    })
+    switch (response.type) {
+      case "result":
+        context.trace.push(...response.trace)
+        return response.value
+      case "error":
+        context.trace.push(...response.trace)
+        throw unmarshalError(context, response.error)
+      case "resolved":
+        throw new Error("MessagePortEgress.call(): unexpected response")
+    }
+  }
+
+  /** Internal: dispose a connected remote atom. */
+  _disconnect(handle: number) {
+    if (this._disposed) return
+    this.port.postMessage({ type: "dispose", handle } as PortRequest)
+  }
+
+  /**
+   * Stop listening to the port, failing any calls still awaiting a response
+   * and any made afterwards.
+   */
+  [Symbol.dispose]() {
+    this._disposed = true
+    this.port.off("message", this._listener)
+    const context = this.domain.createContext(undefined)
+    for (const pending of this._pending.values()) {
+      pending.reject(
+        new EarlyDisposalError(context, "MessagePortEgress was disposed")
+      )
+    }
+    this._pending.clear()
+  }
+}
+
+/** An `Element` standing in for a resource behind a `MessagePortEgress`. */
+class MessagePortElement implements Element {
+  egress: MessagePortEgress
+  name: Name
+  constructor(egress: MessagePortEgress, name: Name) {
+    this.egress = egress
+    this.name = name
+  }
+  getAtom(
+    pattern: Name,
+    _context: Context
+  ): Promise<AtomImpl<unknown, unknown>> {
+    const handle = this.egress._connect(this.name)
+    return Promise.resolve(
+      Object.assign(
+        async (context: Context, arg: unknown) => {
+          context.trace.push([TraceEventType.EGRESS_CALL])
+          try {
+            checkSerializable(context, "argument", arg)
+            return await this.egress._call(context, handle, arg)
+          } finally {
+            context.trace.push([TraceEventType.EGRESS_RETURN])
+          }
+        },
+        {
+          [Symbol.dispose]: () => {
+            this.egress._disconnect(handle)
+          },
+          requestedPattern: pattern,
+          element: this
+        }
+      )
+    )
+  }
+}
@@ -0,0 +1,133 @@
+import { isPlainObject } from "@ferrer/utils"
+import {
+  schemasOf,
+  type Context,
+  type Name,
+  type Schema
+} from "./core-types.js"
+import { ValidationError } from "./errors.js"
+
+/**
+ * Check a value against a `Schema`, returning a description of each way in
+ * which it does not match; the value is valid if there are none.
+ *
+ * @param path Location of the value, used in the descriptions.
+ */
+export function validate(
+  schema: Schema,
+  value: unknown,
+  path: string = "$"
+): string[] {
+  if ("anyOf" in schema) {
+    return schema.anyOf.some((option) => validate(option, value).length === 0)
+      ? []
+      : [`${path}: does not match any of the allowed schemas`]
+  }
+  if ("const" in schema) {
+    return value === schema.const
+      ? []
+      : [`${path}: expected ${JSON.stringify(schema.const)}`]
+  }
+  switch (schema.type) {
+    case "string": {
+      if (typeof value !== "string") return [`${path}: expected a string`]
+      const problems: string[] = []
+      if (schema.enum !== undefined && !schema.enum.includes(value)) {
+        problems.push(`${path}: expected one of ${JSON.stringify(schema.enum)}`)
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        problems.push(`${path}: shorter than ${schema.minLength}`)
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        problems.push(`${path}: longer than ${schema.maxLength}`)
+      }
+      if (
+        schema.pattern !== undefined &&
+        !new RegExp(schema.pattern).test(value)
+      ) {
+        problems.push(`${path}: does not match /${schema.pattern}/`)
+      }
+      return problems
+    }
+    case "number":
+    case "integer": {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return [`${path}: expected a number`]
+      }
+      const problems: string[] = []
+      if (schema.type === "integer" && !Number.isInteger(value)) {
+        problems.push(`${path}: expected an integer`)
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        problems.push(`${path}: less than ${schema.minimum}`)
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        problems.push(`${path}: greater than ${schema.maximum}`)
+      }
+      return problems
+    }
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${path}: expected a boolean`]
+    case "null":
+      return value === null ? [] : [`${path}: expected null`]
+    case "array": {
+      if (!Array.isArray(value)) return [`${path}: expected an array`]
+      const problems = value.flatMap((item, i) =>
+        validate(schema.items, item, `${path}[${i}]`)
+      )
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        problems.push(`${path}: fewer than ${schema.minItems} items`)
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        problems.push(`${path}: more than ${schema.maxItems} items`)
+      }
+      return problems
+    }
+    case "object": {
+      if (!isPlainObject(value)) return [`${path}: expected an object`]
+      const object = value as Record<string, unknown>
+      const problems: string[] = []
+      for (const key of schema.required ?? []) {
+        if (!Object.hasOwn(object, key)) {
+          problems.push(`${path}.${key}: is required`)
+        }
+      }
+      for (const key of Object.keys(object)) {
+        if (Object.hasOwn(schema.properties, key)) {
+          problems.push(
+            ...validate(schema.properties[key], object[key], `${path}.${key}`)
+          )
+        } else if (schema.additionalProperties === false) {
+          problems.push(`${path}.${key}: is not allowed`)
+        }
+      }
+      return problems
+    }
+  }
+}
+
+/**
+ * Check the argument or result of a call of the atom named `name` against
+ * the schema attached to the name, if there is one.
+ *
+ * @throws ValidationError If the value does not match.
+ */
+export function checkSchema(
+  context: Context,
+  name: Name,
+  target: "argument" | "result",
+  value: unknown
+) {
+  const schemas = schemasOf(name)
+  if (schemas === undefined) return
+  const schema = target === "argument" ? schemas.arg : schemas.result
+  const problems =
+    schema === undefined
+      ? value === undefined
+        ? []
+        : ["$: expected no value"]
+      : validate(schema, value)
+  if (problems.length > 0) {
+    throw new ValidationError(context, target, problems)
+  }
+}
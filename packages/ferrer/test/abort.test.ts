@@ -0,0 +1,102 @@
+import { deferred } from "@ferrer/utils"
+import { BasicDomain, TimeoutError, name, type Context } from ".."
+
+class FlakyError extends Error {
+  isTransient = true
+}
+
+const Slow = name<undefined, { value: string }>({ svc: "slow" })
+const Caller = name<undefined, { value: string }>({ svc: "caller" })
+
+function untilAborted(context: Context): Promise<{ value: string }> {
+  return new Promise((_resolve, reject) => {
+    context.signal?.addEventListener("abort", () => {
+      reject(context.signal?.reason as Error)
+    })
+  })
+}
+
+it("abort: a call rejects with the reason of its signal", async () => {
+  const domain = new BasicDomain()
+  const started = deferred<void>()
+  const aborted = deferred<unknown>()
+  domain.bind(Slow, async (context) => {
+    started.resolve()
+    try {
+      return await untilAborted(context)
+    } catch (err) {
+      aborted.resolve(err)
+      throw err
+    }
+  })
+  using atom = domain.localIngress.externalize(Slow)
+  const controller = new AbortController()
+  const result = atom(undefined, { signal: controller.signal })
+  await started.promise
+  controller.abort(new Error("cancelled"))
+  await expect(result).rejects.toThrow("cancelled")
+  // The implementation observes the abort through its context
+  expect(await aborted.promise).toEqual(new Error("cancelled"))
+})
+
+it("abort: timeouts reject with a TimeoutError", async () => {
+  const domain = new BasicDomain()
+  domain.bind(Slow, untilAborted)
+  using atom = domain.localIngress.externalize(Slow, { timeout: 10 })
+  const err = (await atom().catch((e: unknown) => e)) as TimeoutError
+  expect(err).toBeInstanceOf(TimeoutError)
+  expect(err.isTransient).toBe(false)
+  expect(err.timeout).toBe(10)
+})
+
+it("abort: the signal is linked to the contexts of nested calls", async () => {
+  const domain = new BasicDomain()
+  let innerSignal: AbortSignal | undefined
+  domain.bind(Slow, (context) => {
+    innerSignal = context.signal
+    return untilAborted(context)
+  })
+  domain.bind(Caller, async (context) => {
+    using slow = context.find(Slow)
+    return await slow()
+  })
+  using caller = domain.localIngress.externalize(Caller)
+  const controller = new AbortController()
+  const result = caller(undefined, { signal: controller.signal })
+  await new Promise((resolve) => setTimeout(resolve, 10))
+  controller.abort(new Error("cancelled"))
+  await expect(result).rejects.toThrow("cancelled")
+  expect(innerSignal?.aborted).toBe(true)
+})
+
+it("abort: retry backoff is cut short and not resumed", async () => {
+  const domain = new BasicDomain({
+    retryPolicy: { initialDelay: 10_000, jitter: 0 }
+  })
+  let calls = 0
+  domain.bind(Slow, async () => {
+    calls++
+    throw new FlakyError("flaky")
+  })
+  using atom = domain.localIngress.externalize(Slow)
+  const started = Date.now()
+  await expect(atom(undefined, { timeout: 20 })).rejects.toBeInstanceOf(
+    TimeoutError
+  )
+  expect(Date.now() - started).toBeLessThan(5_000)
+  expect(calls).toBe(1)
+})
+
+it("abort: an already-aborted signal prevents the call", async () => {
+  const domain = new BasicDomain()
+  let calls = 0
+  domain.bind(Slow, async () => {
+    calls++
+    return { value: "done" }
+  })
+  using atom = domain.localIngress.externalize(Slow)
+  await expect(
+    atom(undefined, { signal: AbortSignal.abort(new Error("too late")) })
+  ).rejects.toThrow("too late")
+  expect(calls).toBe(0)
+})
@@ -0,0 +1,101 @@
+import {
+  AuthorizationError,
+  BasicDomain,
+  Ingress,
+  name,
+  type ContextSecurity,
+  type IngressPolicy
+} from ".."
+
+const Report = name<undefined, { ok: boolean }>({ svc: "reports", op: "read" })
+const Purge = name<undefined, { ok: boolean }>({ svc: "reports", op: "purge" })
+const WhoAmI = name<undefined, { principal: string }>({ svc: "whoami" })
+const Caller = name<undefined, { principal: string }>({ svc: "caller" })
+
+const policies: IngressPolicy[] = [
+  { pattern: { op: "purge" }, effect: "allow", roles: ["admin"] },
+  { pattern: { op: "purge" }, effect: "deny" },
+  { pattern: { svc: "reports" }, effect: "allow" }
+]
+
+function reportsDomain() {
+  const domain = new BasicDomain({ retryPolicy: { maxAttempts: 1 } })
+  domain.bind(Report, async () => ({ ok: true }))
+  domain.bind(Purge, async () => ({ ok: true }))
+  const ingress = new Ingress(domain, { policies, defaultEffect: "deny" })
+  return { domain, ingress }
+}
+
+const alice: ContextSecurity = { principal: "alice", roles: ["admin"] }
+const bob: ContextSecurity = { principal: "bob", roles: ["viewer"] }
+
+it("authorization: allowed callers reach the name", async () => {
+  const { ingress } = reportsDomain()
+  using purge = ingress.externalize(Purge, { metadata: { security: alice } })
+  expect(await purge()).toEqual({ ok: true })
+  using report = ingress.externalize(Report, { metadata: { security: bob } })
+  expect(await report()).toEqual({ ok: true })
+})
+
+it("authorization: denied patterns are refused before resolution", () => {
+  const { ingress } = reportsDomain()
+  let err: unknown
+  try {
+    ingress.externalize(Purge, { metadata: { security: bob } })
+  } catch (e) {
+    err = e
+  }
+  expect(err).toBeInstanceOf(AuthorizationError)
+  expect((err as AuthorizationError).isTransient).toBe(false)
+  expect((err as AuthorizationError).principal).toBe("bob")
+  expect((err as AuthorizationError).message).toBe(
+    'Access denied for bob to {"svc":"reports","op":"purge"}'
+  )
+  expect(() => ingress.externalize(WhoAmI)).toThrow(AuthorizationError)
+})
+
+it("authorization: broad patterns cannot resolve to denied names", async () => {
+  const { domain, ingress } = reportsDomain()
+  domain.unbind(domain.registry.match(Report)[0])
+  using anything = ingress.externalize(name({ svc: "reports" }), {
+    metadata: { security: bob }
+  })
+  await expect(anything()).rejects.toBeInstanceOf(AuthorizationError)
+})
+
+it("authorization: security metadata is readable down the call chain", async () => {
+  const domain = new BasicDomain()
+  domain.bind(WhoAmI, async (context) => ({
+    principal: context.metadata.security?.principal ?? "anonymous"
+  }))
+  domain.bind(Caller, async (context) => {
+    using whoami = context.find(WhoAmI)
+    return await whoami()
+  })
+  using caller = domain.localIngress.externalize(Caller, {
+    metadata: { security: alice }
+  })
+  expect(await caller()).toEqual({ principal: "alice" })
+})
+
+it("authorization: policies apply to calls arriving through egresses", async () => {
+  const { domain: remote } = reportsDomain()
+  remote.localIngress.policies.push(...policies)
+  remote.localIngress.defaultEffect = "deny"
+  const local = new BasicDomain({ retryPolicy: { maxAttempts: 1 } })
+  local.addEgress(remote.localIngress)
+  local.bind(Caller, async (context) => {
+    using purge = context.find(Purge)
+    await purge()
+    return { principal: context.metadata.security?.principal ?? "" }
+  })
+
+  using asAlice = local.localIngress.externalize(Caller, {
+    metadata: { security: alice }
+  })
+  expect(await asAlice()).toEqual({ principal: "alice" })
+  using asBob = local.localIngress.externalize(Caller, {
+    metadata: { security: bob }
+  })
+  await expect(asBob()).rejects.toBeInstanceOf(AuthorizationError)
+})
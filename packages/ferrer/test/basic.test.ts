@@ -1,6 +1,8 @@
+import { isolateGlobalDomain } from "@ferrer/ferrer/testing"
 import { ferrer } from ".."
 
 it("basic bind and call", async () => {
+  using _isolated = isolateGlobalDomain()
   const Adder = ferrer.name<{ a: number; b: number }, { sum: number }>({
     svc: "math",
     method: "add"
@@ -0,0 +1,121 @@
+import { deferred } from "@ferrer/utils"
+import { BasicDomain, ShutdownError, name } from ".."
+
+const Clock = name<undefined, { now: number }>({ svc: "clock" })
+const Greeter = name<undefined, { greeting: string }>({ svc: "greeter" })
+const Tenant = name<undefined, { tenant: string }>({ svc: "tenant" })
+
+function appDomain() {
+  const domain = new BasicDomain({ retryPolicy: { maxAttempts: 1 } })
+  domain.bind(Clock, async () => ({ now: Date.now() }))
+  domain.bind(Greeter, async (context) => {
+    using clock = context.find(Clock)
+    const { now } = await clock()
+    return { greeting: `Hello at ${now}` }
+  })
+  return domain
+}
+
+it("child domains: inherit the bindings of their parent", async () => {
+  const parent = appDomain()
+  using child = parent.createChild()
+  using greeter = child.localIngress.externalize(Greeter)
+  expect((await greeter()).greeting).toMatch(/^Hello at \d+$/)
+  expect(child.retryPolicy).toEqual({ maxAttempts: 1 })
+})
+
+it("child domains: override and add names without affecting the parent", async () => {
+  const parent = appDomain()
+  using child = parent.createChild()
+  child.bind(Clock, async () => ({ now: 0 }))
+  child.bind(Tenant, async () => ({ tenant: "acme" }))
+
+  using childGreeter = child.localIngress.externalize(Greeter)
+  expect(await childGreeter()).toEqual({ greeting: "Hello at 0" })
+  using tenant = child.localIngress.externalize(Tenant)
+  expect(await tenant()).toEqual({ tenant: "acme" })
+
+  using parentGreeter = parent.localIngress.externalize(Greeter)
+  expect((await parentGreeter()).greeting).not.toBe("Hello at 0")
+  expect(await parent.resolver.resolve(Tenant)).toBeUndefined()
+})
+
+it("child domains: nest, resolving through every ancestor", async () => {
+  const parent = appDomain()
+  using child = parent.createChild()
+  child.bind(Clock, async () => ({ now: 1 }))
+  using grandchild = child.createChild()
+  grandchild.bind(Tenant, async () => ({ tenant: "acme" }))
+  using greeter = grandchild.localIngress.externalize(Greeter)
+  expect(await greeter()).toEqual({ greeting: "Hello at 1" })
+})
+
+it("child domains: disposal unbinds everything bound in the child", async () => {
+  const parent = appDomain()
+  const child = parent.createChild()
+  child.bind(Clock, async () => ({ now: 0 }))
+  child.bind(Tenant, async () => ({ tenant: "acme" }))
+  using greeter = child.localIngress.externalize(Greeter)
+  expect(await greeter()).toEqual({ greeting: "Hello at 0" })
+
+  child[Symbol.dispose]()
+  expect(child.registry.match({})).toEqual([])
+  expect(child.lifecycles.size).toBe(0)
+  expect(await child.resolver.resolve(Tenant)).toBeUndefined()
+  await expect(greeter()).rejects.toBeInstanceOf(ShutdownError)
+  expect(parent.registry.match({})).toHaveLength(2)
+})
+
+it("child domains: async disposal releases everything bound too", async () => {
+  const parent = appDomain()
+  const child = parent.createChild()
+  child.bind(Clock, async () => ({ now: 0 }))
+  {
+    await using _child = child
+    using greeter = child.localIngress.externalize(Greeter)
+    expect(await greeter()).toEqual({ greeting: "Hello at 0" })
+  }
+  expect(child.registry.match({})).toEqual([])
+  expect(child.lifecycles.size).toBe(0)
+  expect(parent.registry.match({})).toHaveLength(2)
+})
+
+it("child domains: are shut down with their parent", async () => {
+  const parent = appDomain()
+  const child = parent.createChild()
+  const grandchild = child.createChild()
+  const started = deferred<void>()
+  grandchild.bind(Tenant, async () => {
+    started.resolve()
+    return await new Promise<{ tenant: string }>(() => {})
+  })
+  using tenant = grandchild.localIngress.externalize(Tenant)
+  const inFlight = tenant()
+  await started.promise
+
+  const report = await parent.shutdown({ deadline: 10 })
+  expect(report.drained).toBe(false)
+  await expect(inFlight).rejects.toBeInstanceOf(ShutdownError)
+  expect(child.shuttingDown).toBe(true)
+  expect(grandchild.registry.match({})).toEqual([])
+  expect(parent._children.size).toBe(0)
+
+  const other = appDomain()
+  const otherChild = other.createChild()
+  otherChild.bind(Tenant, async () => ({ tenant: "acme" }))
+  other[Symbol.dispose]()
+  expect(otherChild.shuttingDown).toBe(true)
+  expect(otherChild.registry.match({})).toEqual([])
+})
+
+it("child domains: unbinding from the parent invalidates the child's atoms", async () => {
+  const parent = new BasicDomain({ retryPolicy: { maxAttempts: 1 } })
+  const binding = parent.bind(Tenant, async () => ({ tenant: "parent" }))
+  using child = parent.createChild()
+  using tenant = child.localIngress.externalize(Tenant)
+  expect(await tenant()).toEqual({ tenant: "parent" })
+
+  binding[Symbol.dispose]()
+  parent.bind(Tenant, async () => ({ tenant: "rebound" }))
+  expect(await tenant()).toEqual({ tenant: "rebound" })
+})
@@ -0,0 +1,99 @@
+import {
+  BasicDomain,
+  CircuitBreakerRegistry,
+  CircuitOpenError,
+  FerrerError,
+  name
+} from ".."
+
+const Db = name<undefined, { replica: string }>({ svc: "db" })
+const Primary = name<undefined, { replica: string }>({ svc: "db", id: "a" })
+const Replica = name<undefined, { replica: string }>({ svc: "db", id: "b" })
+
+function failingDomain(coolDown = 60_000) {
+  const domain = new BasicDomain({
+    retryPolicy: { maxAttempts: 1 },
+    circuitBreaker: { failureThreshold: 2, coolDown }
+  })
+  let calls = 0
+  let healthy = false
+  domain.bind(Primary, async (context) => {
+    calls++
+    if (!healthy) throw new FerrerError(context, "down")
+    return { replica: "a" }
+  })
+  return {
+    domain,
+    calls: () => calls,
+    heal: () => {
+      healthy = true
+    }
+  }
+}
+
+it("circuit breaker: opens after repeated failures and fails fast", async () => {
+  const { domain, calls } = failingDomain()
+  using db = domain.localIngress.externalize(Db)
+  await expect(db()).rejects.toThrow("down")
+  await expect(db()).rejects.toThrow("down")
+  await expect(db()).rejects.toBeInstanceOf(CircuitOpenError)
+  expect(calls()).toBe(2)
+  expect(domain.circuitBreakers?.snapshot()).toMatchObject([
+    { name: { svc: "db", id: "a" }, state: "open", failures: 2 }
+  ])
+})
+
+it("circuit breaker: open registrations are skipped for other matches", async () => {
+  const { domain } = failingDomain()
+  domain.bind(Replica, async () => ({ replica: "b" }))
+  using primary = domain.localIngress.externalize(Primary)
+  await expect(primary()).rejects.toThrow("down")
+  await expect(primary()).rejects.toThrow("down")
+
+  using db = domain.localIngress.externalize(Db)
+  expect(await db()).toEqual({ replica: "b" })
+})
+
+it("circuit breaker: half-open probes close the breaker on success", async () => {
+  const { domain, heal } = failingDomain(10)
+  using db = domain.localIngress.externalize(Db)
+  await expect(db()).rejects.toThrow("down")
+  await expect(db()).rejects.toThrow("down")
+  await new Promise((resolve) => setTimeout(resolve, 20))
+  // A failed probe opens the breaker again straight away
+  await expect(db()).rejects.toThrow("down")
+  await expect(db()).rejects.toBeInstanceOf(CircuitOpenError)
+  await new Promise((resolve) => setTimeout(resolve, 20))
+  heal()
+  expect(await db()).toEqual({ replica: "a" })
+  expect(domain.circuitBreakers?.snapshot()[0]).toMatchObject({
+    state: "closed",
+    failures: 0
+  })
+})
+
+it("circuit breaker: half-open breakers admit a limited number of probes", () => {
+  const breakers = new CircuitBreakerRegistry({
+    failureThreshold: 1,
+    coolDown: 0,
+    halfOpenMaxCalls: 1
+  })
+  breakers.admit(Primary)?.failed(new Error("down"))
+  const probe = breakers.admit(Primary)
+  expect(probe).toBeDefined()
+  expect(breakers.admit(Primary)).toBeUndefined()
+  expect(breakers.breakerFor(Primary).state).toBe("half-open")
+  probe?.abandoned()
+  expect(breakers.isAvailable(Primary)).toBe(true)
+})
+
+it("circuit breaker: errors can be excluded from counting as failures", async () => {
+  const breakers = new CircuitBreakerRegistry({
+    failureThreshold: 1,
+    isFailure: (err) => !(err instanceof TypeError)
+  })
+  breakers.admit(Primary)?.failed(new TypeError("bad input"))
+  expect(breakers.isAvailable(Primary)).toBe(true)
+  breakers.admit(Primary)?.failed(new Error("down"))
+  expect(breakers.isAvailable(Primary)).toBe(false)
+})
@@ -0,0 +1,90 @@
+import { BasicDomain, TraceEventType, name, type TraceVector } from ".."
+
+const Adder = name<{ a: number; b: number }, { sum: number }>({
+  svc: "math",
+  method: "add"
+})
+const Caller = name<undefined, { sum: number }>({ svc: "caller" })
+
+function bindCaller(domain: BasicDomain) {
+  domain.bind(Caller, async (context) => {
+    using add = context.find(Adder)
+    return await add({ a: 1, b: 2 })
+  })
+}
+
+it("egress: unresolved patterns fall through to other domains", async () => {
+  const local = new BasicDomain()
+  const remote = new BasicDomain()
+  local.addEgress(remote.localIngress)
+
+  let remoteTrace: TraceVector = []
+  remote.bind(Adder, async (context, { a, b }) => {
+    remoteTrace = context.trace
+    return { sum: a + b }
+  })
+  bindCaller(local)
+
+  using caller = local.localIngress.externalize(Caller)
+  expect(await caller()).toEqual({ sum: 3 })
+  expect(remoteTrace.map(([type]) => type)).toEqual([
+    TraceEventType.INGRESS_CALL,
+    TraceEventType.DOMAIN_CALL,
+    TraceEventType.DOMAIN_CALL,
+    TraceEventType.EGRESS_CALL,
+    TraceEventType.INGRESS_CALL,
+    TraceEventType.DOMAIN_CALL
+  ])
+})
+
+it("egress: local bindings take precedence, then egresses in order", async () => {
+  const local = new BasicDomain()
+  const first = new BasicDomain()
+  const second = new BasicDomain()
+  local.addEgress(first.localIngress)
+  local.addEgress(second.localIngress)
+  bindCaller(local)
+
+  second.bind(Adder, async () => ({ sum: 2 }))
+  using caller = local.localIngress.externalize(Caller)
+  expect(await caller()).toEqual({ sum: 2 })
+
+  first.bind(Adder, async () => ({ sum: 1 }))
+  using caller1 = local.localIngress.externalize(Caller)
+  expect(await caller1()).toEqual({ sum: 1 })
+
+  local.bind(Adder, async () => ({ sum: 0 }))
+  using caller0 = local.localIngress.externalize(Caller)
+  expect(await caller0()).toEqual({ sum: 0 })
+})
+
+it("egress: return events are recorded on the calling trace", async () => {
+  const local = new BasicDomain()
+  const remote = new BasicDomain()
+  const egress = local.addEgress(remote.localIngress)
+  remote.bind(Adder, async (_context, { a, b }) => ({ sum: a + b }))
+
+  const resolution = await egress.resolve(Adder)
+  expect(resolution?.name).toEqual(Adder)
+  const context = local.createContext(undefined)
+  using impl = await resolution!.element.getAtom(Adder, context)
+  expect(await impl(context, { a: 2, b: 2 })).toEqual({ sum: 4 })
+  expect(context.trace.map(([type]) => type)).toEqual([
+    TraceEventType.EGRESS_CALL,
+    TraceEventType.INGRESS_RETURN,
+    TraceEventType.EGRESS_RETURN
+  ])
+})
+
+it("egress: remote errors propagate to the caller", async () => {
+  const local = new BasicDomain()
+  const remote = new BasicDomain()
+  local.addEgress(remote.localIngress)
+  remote.bind(Adder, async () => {
+    throw new Error("remote failure")
+  })
+  bindCaller(local)
+
+  using caller = local.localIngress.externalize(Caller)
+  await expect(caller()).rejects.toThrow("remote failure")
+})
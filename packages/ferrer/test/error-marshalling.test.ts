@@ -0,0 +1,151 @@
+import { createTestDomain } from "@ferrer/ferrer/testing"
+import {
+  ErrorRegistry,
+  FerrerError,
+  RemoteError,
+  RetriesExhaustedError,
+  TraceEventType,
+  ValidationError,
+  marshalError,
+  unmarshalError,
+  type Context,
+  type Name,
+  type MarshalledError
+} from ".."
+
+const domain = createTestDomain()
+
+function contextIn(name: Name): Context {
+  return domain.createContext(undefined, undefined, [
+    [TraceEventType.INGRESS_CALL],
+    [TraceEventType.DOMAIN_CALL, name]
+  ])
+}
+
+/** Marshal an error and send it over a simulated wire. */
+function overTheWire(err: unknown): MarshalledError {
+  return JSON.parse(JSON.stringify(marshalError(err))) as MarshalledError
+}
+
+class QuotaError extends FerrerError {
+  override code = "quota.exceeded"
+  limit: number
+  constructor(context: Context, limit: number) {
+    super(context, `Quota of ${limit} exceeded`)
+    this.limit = limit
+  }
+}
+
+it("error marshalling: errors keep their code, origin and fields", () => {
+  const err = new ValidationError(contextIn({ svc: "users" }), "argument", [
+    "$.id: expected string"
+  ])
+  const marshalled = overTheWire(err)
+  expect(marshalled).toMatchObject({
+    name: "ValidationError",
+    code: "ValidationError",
+    message: "Invalid argument:\n  $.id: expected string",
+    isTransient: false,
+    resolvedName: { svc: "users" },
+    trace: [
+      [TraceEventType.INGRESS_CALL],
+      [TraceEventType.DOMAIN_CALL, { svc: "users" }]
+    ],
+    data: { target: "argument", problems: ["$.id: expected string"] }
+  })
+  expect(marshalled.stack).toContain("ValidationError")
+
+  const rehydrated = unmarshalError(contextIn({ svc: "local" }), marshalled)
+  expect(rehydrated).toBeInstanceOf(ValidationError)
+  expect(rehydrated).toMatchObject({
+    message: err.message,
+    target: "argument",
+    problems: ["$.id: expected string"],
+    resolvedName: { svc: "users" },
+    trace: err.trace,
+    stack: err.stack
+  })
+})
+
+it("error marshalling: cause chains are kept", () => {
+  const context = contextIn({ svc: "orders" })
+  const root = new TypeError("bad total")
+  const err = new FerrerError(context, "order failed", {
+    cause: new ValidationError(context, "result", ["$.total"])
+  })
+  ;(err.cause as Error).cause = root
+  const rehydrated = unmarshalError(context, overTheWire(err))
+  expect(rehydrated).toBeInstanceOf(RemoteError)
+  expect(rehydrated.cause).toBeInstanceOf(ValidationError)
+  const rootCause = (rehydrated.cause as Error).cause as RemoteError
+  expect(rootCause).toBeInstanceOf(RemoteError)
+  expect(rootCause.remoteName).toBe("TypeError")
+  expect(rootCause.message).toBe("bad total")
+
+  const retries = new RetriesExhaustedError(context, [root])
+  expect(overTheWire(retries).cause?.message).toBe("bad total")
+})
+
+it("error marshalling: unregistered errors arrive as remote errors", () => {
+  const context = contextIn({ svc: "billing" })
+  const err = new QuotaError(context, 100)
+  err.isTransient = true
+  const remote = unmarshalError(context, overTheWire(err)) as RemoteError
+  expect(remote).toBeInstanceOf(RemoteError)
+  expect(remote.code).toBe("quota.exceeded")
+  expect(remote.remoteName).toBe("QuotaError")
+  expect(remote.isTransient).toBe(true)
+  expect(remote.resolvedName).toEqual({ svc: "billing" })
+  // Remote errors pass on what they received
+  expect(overTheWire(remote)).toMatchObject({
+    name: "QuotaError",
+    code: "quota.exceeded",
+    stack: err.stack
+  })
+})
+
+it("error marshalling: registered classes are rehydrated by code", () => {
+  const registry = new ErrorRegistry()
+  registry.register(QuotaError, "quota.exceeded")
+  const context = contextIn({ svc: "billing" })
+  const err = unmarshalError(
+    context,
+    overTheWire(new QuotaError(context, 100)),
+    registry
+  ) as QuotaError
+  expect(err).toBeInstanceOf(QuotaError)
+  expect(err.limit).toBe(100)
+  expect(err.code).toBe("quota.exceeded")
+  expect(err.message).toBe("Quota of 100 exceeded")
+})
+
+it("error marshalling: hostile data cannot replace fields or prototypes", () => {
+  const registry = new ErrorRegistry()
+  registry.register(QuotaError, "quota.exceeded")
+  const context = contextIn({ svc: "billing" })
+  const marshalled = JSON.parse(
+    JSON.stringify(marshalError(new QuotaError(context, 100))).replace(
+      '"data":{',
+      '"data":{"__proto__":{"hijacked":true},"constructor":1,' +
+        '"isTransient":true,"code":"forged","message":"forged",'
+    )
+  ) as MarshalledError
+  const err = unmarshalError(context, marshalled, registry) as QuotaError
+  expect(err).toBeInstanceOf(QuotaError)
+  expect(err).toBeInstanceOf(FerrerError)
+  expect((err as unknown as { hijacked?: boolean }).hijacked).toBeUndefined()
+  expect(err.isTransient).toBe(false)
+  expect(err.code).toBe("quota.exceeded")
+  expect(err.message).toBe("Quota of 100 exceeded")
+  expect(err.limit).toBe(100)
+})
+
+it("error marshalling: stacks can be left out", () => {
+  const context = contextIn({ svc: "x" })
+  const err = new FerrerError(context, "outer", {
+    cause: new FerrerError(context, "inner")
+  })
+  const marshalled = marshalError(err, { stacks: false })
+  expect(marshalled.stack).toBeUndefined()
+  expect(marshalled.cause?.stack).toBeUndefined()
+})
@@ -0,0 +1,109 @@
+import {
+  BasicDomain,
+  FunctionElement,
+  HealthNames,
+  name,
+  type HealthStatus
+} from ".."
+
+const Users = name<undefined, { db: string }>({ svc: "users", db: "primary" })
+const UsersReplica = name<undefined, { db: string }>({
+  svc: "users",
+  db: "replica"
+})
+const Clock = name<undefined, { now: number }>({ svc: "clock" })
+
+/** An element backed by a database whose health can be changed. */
+class DatabaseElement extends FunctionElement<undefined, { db: string }> {
+  status: HealthStatus = { state: "healthy" }
+  constructor(db: typeof Users) {
+    super(db, async () => ({ db: String(db.db) }))
+  }
+  checkHealth(): Promise<HealthStatus> {
+    return Promise.resolve(this.status)
+  }
+}
+
+function usersDomain(options = {}) {
+  const domain = new BasicDomain(options)
+  const primary = new DatabaseElement(Users)
+  const replica = new DatabaseElement(UsersReplica)
+  domain.bind(Users, primary)
+  domain.bind(UsersReplica, replica, { cache: { ttl: 1000 } })
+  domain.bind(Clock, async () => ({ now: Date.now() }))
+  return { domain, primary, replica }
+}
+
+it("health: reports aggregate the elements with health checks", async () => {
+  const { domain, replica } = usersDomain()
+  const healthy = await domain.checkHealth()
+  expect(healthy).toMatchObject({
+    state: "healthy",
+    ready: true,
+    elements: [
+      { name: Users, state: "healthy" },
+      { name: UsersReplica, state: "healthy" }
+    ]
+  })
+  expect(healthy.checkedAt).toBeLessThanOrEqual(Date.now())
+
+  replica.status = { state: "degraded", detail: "replication lag" }
+  expect(await domain.checkHealth()).toMatchObject({
+    state: "degraded",
+    ready: true
+  })
+  replica.status = { state: "unhealthy", detail: "unreachable" }
+  expect(await domain.checkHealth()).toMatchObject({
+    state: "unhealthy",
+    ready: false
+  })
+  expect(await domain.checkHealth({ db: "primary" })).toMatchObject({
+    state: "healthy",
+    elements: [{ name: Users }]
+  })
+})
+
+it("health: failing and hanging checks count as unhealthy", async () => {
+  const domain = new BasicDomain({ healthCheckTimeout: 10 })
+  const failing = new DatabaseElement(Users)
+  failing.checkHealth = () => Promise.reject(new Error("connection refused"))
+  const hanging = new DatabaseElement(UsersReplica)
+  hanging.checkHealth = () => new Promise(() => {})
+  domain.bind(Users, failing)
+  domain.bind(UsersReplica, hanging)
+  expect((await domain.checkHealth()).elements).toEqual([
+    { name: Users, state: "unhealthy", detail: "connection refused" },
+    {
+      name: UsersReplica,
+      state: "unhealthy",
+      detail: "Health check timed out after 10ms"
+    }
+  ])
+})
+
+it("health: resolvers skip elements found unhealthy", async () => {
+  const { domain, primary } = usersDomain({ retryPolicy: { maxAttempts: 1 } })
+  primary.status = { state: "unhealthy" }
+  expect((await domain.resolver.resolve({ svc: "users" }))?.name).toEqual(Users)
+  await domain.checkHealth()
+  expect((await domain.resolver.resolve({ svc: "users" }))?.name).toEqual(
+    UsersReplica
+  )
+  // Unhealthy elements are still used when there is no alternative
+  expect((await domain.resolver.resolve(Users))?.name).toEqual(Users)
+
+  primary.status = { state: "healthy" }
+  await domain.checkHealth()
+  expect((await domain.resolver.resolve({ svc: "users" }))?.name).toEqual(Users)
+})
+
+it("health: the report is available as an atom", async () => {
+  const { domain, replica } = usersDomain({ healthEndpoint: true })
+  replica.status = { state: "unhealthy", detail: "unreachable" }
+  using report = domain.localIngress.externalize(HealthNames.report)
+  expect(await report()).toMatchObject({ state: "unhealthy", ready: false })
+  expect(await report({ pattern: { db: "primary" } })).toMatchObject({
+    state: "healthy",
+    ready: true
+  })
+})
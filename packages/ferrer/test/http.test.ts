@@ -0,0 +1,286 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse
+} from "node:http"
+import type { AddressInfo } from "node:net"
+import { Readable } from "node:stream"
+import {
+  AuthorizationError,
+  BasicDomain,
+  FerrerError,
+  HttpEgress,
+  HttpIngressServer,
+  Ingress,
+  JsonRpcErrorCode,
+  RemoteError,
+  TraceEventType,
+  TransportError,
+  name,
+  type HttpIngressOptions,
+  type TraceVector
+} from ".."
+
+const Adder = name<{ a: number; b: number }, { sum: number }>({
+  svc: "math",
+  method: "add"
+})
+const Secret = name<undefined, { secret: string }>({ svc: "secret" })
+const Caller = name<undefined, { sum: number }>({ svc: "caller" })
+
+async function listen(
+  domain: BasicDomain,
+  options: HttpIngressOptions
+): Promise<Server & { url: string }> {
+  const ingress = new HttpIngressServer(domain.localIngress, options)
+  const server = createServer(ingress.handler)
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const { port } = server.address() as AddressInfo
+  return Object.assign(server, { url: `http://127.0.0.1:${port}/` })
+}
+
+function close(server: Server) {
+  return new Promise((resolve) => server.close(resolve))
+}
+
+let remote: BasicDomain
+let local: BasicDomain
+let server: Server & { url: string }
+
+beforeEach(async () => {
+  remote = new BasicDomain()
+  remote.bind(Adder, async (_context, { a, b }) => ({ sum: a + b }))
+  remote.bind(Secret, async () => ({ secret: "hunter2" }))
+  server = await listen(remote, { expose: [{ svc: "math" }] })
+
+  local = new BasicDomain({ retryPolicy: { maxAttempts: 2, initialDelay: 1 } })
+  local.addEgress(new HttpEgress(local, { url: server.url }))
+})
+
+afterEach(async () => {
+  await close(server)
+})
+
+it("http: exposed names can be called through an egress", async () => {
+  let remoteTrace: TraceVector = []
+  remote.bind(name({ svc: "math", method: "trace" }), async (context) => {
+    remoteTrace = context.trace
+    return {}
+  })
+  local.bind(Caller, async (context) => {
+    using add = context.find(Adder)
+    using trace = context.find(name({ svc: "math", method: "trace" }))
+    await trace()
+    return await add({ a: 1, b: 2 })
+  })
+
+  using caller = local.localIngress.externalize(Caller)
+  expect(await caller()).toEqual({ sum: 3 })
+  expect(remoteTrace.map(([type]) => type)).toEqual([
+    TraceEventType.INGRESS_CALL,
+    TraceEventType.DOMAIN_CALL,
+    TraceEventType.DOMAIN_CALL,
+    TraceEventType.EGRESS_CALL,
+    TraceEventType.INGRESS_CALL,
+    TraceEventType.DOMAIN_CALL
+  ])
+})
+
+it("http: names outside the allow-list are not exposed", async () => {
+  const egress = new HttpEgress(local, { url: server.url })
+  expect(await egress.resolve(Secret)).toBeUndefined()
+  expect(await egress.resolve({ svc: "math" })).toBeDefined()
+})
+
+it("http: remote errors are returned as structured errors", async () => {
+  remote.bind(name({ svc: "math", method: "fail" }), async (context) => {
+    throw new FerrerError(context, "division by zero")
+  })
+  const egress = new HttpEgress(local, { url: server.url })
+  const resolution = await egress.resolve({ svc: "math", method: "fail" })
+  const context = local.createContext(undefined)
+  using impl = await resolution!.element.getAtom(resolution!.name, context)
+  const err = (await impl(context, {}).catch((e: unknown) => e)) as RemoteError
+  expect(err).toBeInstanceOf(RemoteError)
+  expect(err.message).toBe("division by zero")
+  expect(err.remoteName).toBe("FerrerError")
+  expect(err.remoteStack).toBeUndefined()
+})
+
+it("http: malformed requests get JSON-RPC errors", async () => {
+  const post = async (body: string) => {
+    const response = await fetch(server.url, { method: "POST", body })
+    return (await response.json()) as { error: { code: number } }
+  }
+  expect((await post("{")).error.code).toBe(JsonRpcErrorCode.PARSE_ERROR)
+  expect((await post("[]")).error.code).toBe(JsonRpcErrorCode.INVALID_REQUEST)
+  expect(
+    (await post(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "x" }))).error
+      .code
+  ).toBe(JsonRpcErrorCode.INVALID_PARAMS)
+  expect(
+    (
+      await post(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "x",
+          params: { pattern: {} }
+        })
+      )
+    ).error.code
+  ).toBe(JsonRpcErrorCode.METHOD_NOT_FOUND)
+  expect((await fetch(server.url)).status).toBe(405)
+})
+
+it("http: invalid patterns and traces are refused", async () => {
+  const post = async (method: string, params: object) => {
+    const body = JSON.stringify({ jsonrpc: "2.0", id: 1, method, params })
+    const response = await fetch(server.url, { method: "POST", body })
+    return (await response.json()) as { error: { code: number } }
+  }
+  const bogus = { pattern: { svc: { $bogus: 1 } } }
+  expect((await post("ferrer.resolve", bogus)).error.code).toBe(
+    JsonRpcErrorCode.CALL_FAILED
+  )
+  expect((await post("ferrer.call", bogus)).error.code).toBe(
+    JsonRpcErrorCode.CALL_FAILED
+  )
+  const forged = { pattern: { svc: "math" }, trace: [[99], "x"] }
+  expect((await post("ferrer.call", forged)).error.code).toBe(
+    JsonRpcErrorCode.INVALID_PARAMS
+  )
+})
+
+it("http: failures handling a request are answered with 500", async () => {
+  class FailingServer extends HttpIngressServer {
+    override dispatch(): never {
+      throw new Error("boom")
+    }
+  }
+  const failing = createServer(
+    new FailingServer(remote.localIngress, { expose: [] }).handler
+  )
+  await new Promise<void>((resolve) => failing.listen(0, "127.0.0.1", resolve))
+  const { port } = failing.address() as AddressInfo
+  const response = await fetch(`http://127.0.0.1:${port}/`, {
+    method: "POST",
+    body: "{}"
+  })
+  expect(response.status).toBe(500)
+  await close(failing)
+})
+
+it("http: unreachable servers produce transient transport errors", async () => {
+  await close(server)
+  const egress = new HttpEgress(local, { url: server.url })
+  const err = (await egress.resolve(Adder).catch((e: unknown) => e)) as Error
+  expect(err).toBeInstanceOf(TransportError)
+  expect((err as TransportError).isTransient).toBe(true)
+  server = await listen(remote, { expose: [] })
+})
+
+it("http: resolution applies the ingress's policies", async () => {
+  const ingress = new Ingress(remote, {
+    policies: [{ pattern: { method: "add" }, effect: "deny" }]
+  })
+  const guarded = createServer(
+    new HttpIngressServer(ingress, { expose: [{ svc: "math" }] }).handler
+  )
+  await new Promise<void>((resolve) => guarded.listen(0, "127.0.0.1", resolve))
+  const { port } = guarded.address() as AddressInfo
+  const egress = new HttpEgress(local, { url: `http://127.0.0.1:${port}/` })
+  await expect(egress.resolve(Adder)).rejects.toBeInstanceOf(AuthorizationError)
+  await close(guarded)
+})
+
+it("http: callers' security is trusted as far as the server decides", async () => {
+  const WhoAmI = name<undefined, { principal: string }>({ svc: "whoami" })
+  remote.bind(WhoAmI, async (context) => ({
+    principal: context.metadata.security?.principal ?? "anonymous"
+  }))
+  const ingress = new Ingress(remote, {
+    policies: [
+      { pattern: { svc: "whoami" }, effect: "allow", roles: ["admin"] },
+      { pattern: { svc: "whoami" }, effect: "deny" }
+    ]
+  })
+  const guarded = createServer(
+    new HttpIngressServer(ingress, {
+      expose: [{ svc: "whoami" }],
+      authenticate: (claimed, request) =>
+        request?.headers.authorization === "Bearer internal"
+          ? claimed
+          : undefined
+    }).handler
+  )
+  await new Promise<void>((resolve) => guarded.listen(0, "127.0.0.1", resolve))
+  const { port } = guarded.address() as AddressInfo
+  const url = `http://127.0.0.1:${port}/`
+  const alice = { security: { principal: "alice", roles: ["admin"] } }
+  const WhoAsks = name<undefined, { principal: string }>({ svc: "asker" })
+  const askThrough = (headers?: Record<string, string>) => {
+    const domain = new BasicDomain({ retryPolicy: { maxAttempts: 1 } })
+    domain.addEgress(new HttpEgress(domain, { url, headers }))
+    domain.bind(WhoAsks, async (context) => {
+      using whoAmI = context.find(WhoAmI)
+      return await whoAmI()
+    })
+    return domain.localIngress.externalize(WhoAsks, { metadata: alice })
+  }
+
+  try {
+    using trusted = askThrough({ authorization: "Bearer internal" })
+    expect(await trusted()).toEqual({ principal: "alice" })
+    using untrusted = askThrough()
+    await expect(untrusted()).rejects.toBeInstanceOf(AuthorizationError)
+  } finally {
+    await close(guarded)
+  }
+})
+
+it("http: responses that are not JSON-RPC are transport errors", async () => {
+  const respond = (body: string) =>
+    new HttpEgress(local, {
+      url: server.url,
+      fetch: () => Promise.resolve(new Response(body, { status: 200 }))
+    })
+  for (const body of ["<html>Bad gateway</html>", "null", '{"id":1}']) {
+    const err = (await respond(body)
+      .resolve(Adder)
+      .catch((e: unknown) => e)) as TransportError
+    expect(err).toBeInstanceOf(TransportError)
+    expect(err.isTransient).toBe(false)
+  }
+})
+
+it("http: only oversized bodies are answered with 413", async () => {
+  const handle = async (request: Readable) => {
+    let status = 0
+    const response = {
+      headersSent: false,
+      writeHead(code: number) {
+        status = code
+        return this
+      },
+      end() {}
+    }
+    new HttpIngressServer(remote.localIngress, {
+      expose: [],
+      maxBodySize: 4
+    }).handler(
+      Object.assign(request, { method: "POST" }) as unknown as IncomingMessage,
+      response as unknown as ServerResponse
+    )
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    return status
+  }
+  expect(await handle(Readable.from([Buffer.from("too large")]))).toBe(413)
+  const aborted = new Readable({
+    read() {
+      this.destroy(new Error("socket hang up"))
+    }
+  })
+  expect(await handle(aborted)).toBe(500)
+})
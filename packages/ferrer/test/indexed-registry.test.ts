@@ -0,0 +1,54 @@
+import {
+  BasicRegistry,
+  FunctionElement,
+  IndexedRegistry,
+  type Name,
+  type Registry
+} from ".."
+
+const names: Name[] = []
+for (let i = 0; i < 200; i++) {
+  const name: Name = { svc: `svc${i % 7}`, method: `m${i % 13}` }
+  if (i % 2 === 0) name.version = i % 3
+  if (i % 5 === 0) name.meta = { region: i % 2 === 0 ? "eu" : "us" }
+  if (i % 11 === 0) name.tags = ["a", `t${i % 4}`]
+  names.push(name)
+}
+
+function fill<T extends Registry>(registry: T): T {
+  for (const name of names) {
+    registry.register(name, new FunctionElement(name, async () => undefined))
+  }
+  return registry
+}
+
+const patterns: Name[] = [
+  {},
+  { svc: "svc1" },
+  { svc: "svc1", method: "m2" },
+  { svc: "svc3", version: 0 },
+  { method: "m4", meta: { region: "eu" } },
+  { svc: "nope" },
+  { version: { $in: [1, 2] } },
+  { svc: { $prefix: "svc" }, method: "m5" },
+  { tags: { $contains: "t1" } },
+  { meta: { region: "us" }, version: { $exists: false } },
+  { svc: "svc2", method: { $not: "m3" } }
+]
+
+it("indexed registry: matches the same registrations as BasicRegistry", () => {
+  const basic = fill(new BasicRegistry())
+  const indexed = fill(new IndexedRegistry())
+  for (const pattern of patterns) {
+    expect(indexed.match(pattern).map((reg) => reg.name)).toEqual(
+      basic.match(pattern).map((reg) => reg.name)
+    )
+  }
+})
+
+it("indexed registry: exact lookup ignores key order", () => {
+  const indexed = fill(new IndexedRegistry())
+  const reordered = Object.fromEntries(Object.entries(names[0]).reverse())
+  expect(indexed.lookup(reordered).map((reg) => reg.name)).toEqual([names[0]])
+  expect(indexed.lookup({ svc: "svc0" })).toEqual([])
+})
@@ -0,0 +1,114 @@
+import { BasicDomain, name, type Invocation } from ".."
+
+const Adder = name<{ a: number; b: number }, { sum: number }>({
+  svc: "math",
+  method: "add"
+})
+const Caller = name<undefined, { sum: number }>({ svc: "caller" })
+
+function mathDomain() {
+  const domain = new BasicDomain()
+  let calls = 0
+  domain.bind(Adder, async (_context, { a, b }) => {
+    calls++
+    return { sum: a + b }
+  })
+  domain.bind(Caller, async (context) => {
+    using add = context.find(Adder)
+    return await add({ a: 1, b: 2 })
+  })
+  return { domain, calls: () => calls }
+}
+
+it("interceptors: run in registration order around the call", async () => {
+  const { domain } = mathDomain()
+  const events: string[] = []
+  for (const label of ["outer", "inner"]) {
+    domain.use(
+      async (_invocation, next) => {
+        events.push(`${label} before`)
+        const result = await next()
+        events.push(`${label} after`)
+        return result
+      },
+      { pattern: { svc: "math" } }
+    )
+  }
+  using caller = domain.localIngress.externalize(Caller)
+  await caller()
+  expect(events).toEqual([
+    "outer before",
+    "inner before",
+    "inner after",
+    "outer after"
+  ])
+})
+
+it("interceptors: see the call and may transform argument and result", async () => {
+  const { domain } = mathDomain()
+  const seen: Invocation[] = []
+  domain.use(
+    async (invocation, next) => {
+      seen.push(invocation)
+      const { a, b } = invocation.arg as { a: number; b: number }
+      const { sum } = (await next({ a: a * 10, b })) as { sum: number }
+      return { sum: sum + 1 }
+    },
+    { pattern: { method: "add" } }
+  )
+  using add = domain.localIngress.externalize(
+    name<{ a: number; b: number }, { sum: number }>({ svc: "math" })
+  )
+  expect(await add({ a: 1, b: 2 })).toEqual({ sum: 13 })
+  expect(seen).toHaveLength(1)
+  expect(seen[0].name).toEqual({ svc: "math", method: "add" })
+  expect(seen[0].pattern).toEqual({ svc: "math" })
+  expect(seen[0].arg).toEqual({ a: 1, b: 2 })
+  expect(seen[0].direction).toBe("inbound")
+})
+
+it("interceptors: may short-circuit the call", async () => {
+  const { domain, calls } = mathDomain()
+  domain.use(async () => ({ sum: 42 }), { pattern: { method: "add" } })
+  using caller = domain.localIngress.externalize(Caller)
+  expect(await caller()).toEqual({ sum: 42 })
+  expect(calls()).toBe(0)
+})
+
+it("interceptors: may observe and replace errors", async () => {
+  const domain = new BasicDomain()
+  domain.bind(Adder, async () => {
+    throw new Error("overflow")
+  })
+  const errors: unknown[] = []
+  domain.use(async (_invocation, next) => {
+    try {
+      return await next()
+    } catch (err) {
+      errors.push(err)
+      return { sum: 0 }
+    }
+  })
+  using add = domain.localIngress.externalize(Adder)
+  expect(await add({ a: 1, b: 2 })).toEqual({ sum: 0 })
+  expect((errors[0] as Error).message).toBe("overflow")
+})
+
+it("interceptors: can be scoped by direction and removed", async () => {
+  const { domain } = mathDomain()
+  const directions: string[] = []
+  const registration = domain.use(
+    async (invocation, next) => {
+      directions.push(`${String(invocation.name.svc)} ${invocation.direction}`)
+      return await next()
+    },
+    { direction: "outbound" }
+  )
+  using caller = domain.localIngress.externalize(Caller)
+  await caller()
+  expect(directions).toEqual(["math outbound"])
+
+  registration[Symbol.dispose]()
+  await caller()
+  expect(directions).toHaveLength(1)
+})
@@ -0,0 +1,137 @@
+import {
+  BasicDomain,
+  FunctionElement,
+  IntrospectionNames,
+  RoundRobinStrategy,
+  isReservedName,
+  name
+} from ".."
+
+const Lookup = name<undefined, { value: string }>({ svc: "lookup", id: "a" })
+const Backup = name<undefined, { value: string }>({ svc: "lookup", id: "b" })
+const Remote = name<undefined, { value: string }>({ svc: "remote" })
+
+function lookupDomain() {
+  const remote = new BasicDomain()
+  remote.bind(Remote, async () => ({ value: "remote" }))
+  const domain = new BasicDomain({ introspection: true })
+  domain.addEgress(remote.localIngress)
+  domain.bind(Lookup, async () => ({ value: "a" }), { cache: { ttl: 1000 } })
+  domain.bind(
+    Backup,
+    new FunctionElement(Backup, async () => ({ value: "b" })),
+    {
+      priority: 1
+    }
+  )
+  return domain
+}
+
+it("introspection: describes registrations, portals and lifecycles", async () => {
+  const domain = lookupDomain()
+  using lookup = domain.localIngress.externalize(Lookup)
+  await lookup()
+  const description = domain.describe()
+  expect(
+    description.registrations.filter((reg) => !isReservedName(reg.name))
+  ).toEqual([
+    {
+      name: Lookup,
+      elementKind: "CachingElement",
+      metadata: { cache: { ttl: 1000 } },
+      available: true
+    },
+    {
+      name: Backup,
+      elementKind: "FunctionElement",
+      metadata: { priority: 1 },
+      available: true
+    }
+  ])
+  expect(description.ingresses).toEqual([
+    { policies: 0, defaultEffect: "allow" }
+  ])
+  expect(description.egresses).toEqual([{ kind: "LocalEgress" }])
+  expect(description.lifecycles).toEqual([
+    {
+      pattern: Lookup,
+      direction: "inbound",
+      resolvedName: Lookup,
+      hasAtomImpl: true
+    }
+  ])
+  expect(description.hasParent).toBe(false)
+
+  lookup[Symbol.dispose]()
+  expect(domain.describe().lifecycles).toEqual([])
+})
+
+it("introspection: explains which registration a pattern resolves to", async () => {
+  const domain = lookupDomain()
+  const explanation = await domain.explain({ svc: "lookup" })
+  expect(explanation.matches.map((reg) => reg.name)).toEqual([Lookup, Backup])
+  expect(explanation.selected).toEqual(Lookup)
+  expect(explanation.source).toBe("local")
+
+  expect(await domain.explain(Remote)).toMatchObject({
+    matches: [],
+    selected: Remote,
+    source: "egress"
+  })
+  using child = domain.createChild()
+  expect(await child.explain(Backup)).toMatchObject({
+    selected: Backup,
+    source: "parent"
+  })
+  expect(await domain.explain({ svc: "missing" })).toEqual({
+    pattern: { svc: "missing" },
+    matches: []
+  })
+})
+
+it("introspection: explanations leave strategies untouched", async () => {
+  const domain = new BasicDomain({
+    resolutionStrategy: new RoundRobinStrategy()
+  })
+  domain.bind(Lookup, async () => ({ value: "a" }))
+  domain.bind(Backup, async () => ({ value: "b" }))
+  expect((await domain.explain({ svc: "lookup" })).selected).toEqual(Lookup)
+  expect((await domain.explain({ svc: "lookup" })).selected).toEqual(Lookup)
+  using lookup = domain.localIngress.externalize(
+    name<undefined, { value: string }>({ svc: "lookup" })
+  )
+  expect(await lookup()).toEqual({ value: "a" })
+  expect((await domain.explain({ svc: "lookup" })).selected).toEqual(Backup)
+})
+
+it("introspection: reserved names cannot be bound", () => {
+  const domain = new BasicDomain()
+  expect(() =>
+    domain.bind(IntrospectionNames.describe, async () => ({
+      registrations: [],
+      ingresses: [],
+      egresses: [],
+      lifecycles: [],
+      hasParent: false
+    }))
+  ).toThrow(/reserved/)
+  expect(() =>
+    domain.bind(name({ svc: "ferrer.custom" }), async () => ({}))
+  ).toThrow(/reserved/)
+})
+
+it("introspection: built-in atoms can be queried through an ingress", async () => {
+  const domain = lookupDomain()
+  using describe = domain.localIngress.externalize(IntrospectionNames.describe)
+  const description = await describe()
+  expect(description.registrations.map((reg) => reg.name)).toContainEqual(
+    Lookup
+  )
+  using explain = domain.localIngress.externalize(IntrospectionNames.explain)
+  expect(await explain({ pattern: { id: "b" } })).toMatchObject({
+    selected: Backup,
+    source: "local"
+  })
+  expect(isReservedName(IntrospectionNames.describe)).toBe(true)
+  expect(isReservedName(Lookup)).toBe(false)
+})
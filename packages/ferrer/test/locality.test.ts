@@ -0,0 +1,105 @@
+import {
+  BasicDomain,
+  LocalityError,
+  RetriesExhaustedError,
+  SerializationError,
+  UnresolvedPatternError,
+  findUnserializable,
+  local_name,
+  name,
+  untyped_name
+} from ".."
+
+const Local = local_name<{ fn: () => number }, { n: number }>({ svc: "local" })
+const Echo = untyped_name({ svc: "echo" })
+const Caller = name<undefined, { n: number }>({ svc: "caller" })
+
+it("locality: local names cannot be externalized", () => {
+  const domain = new BasicDomain()
+  domain.bind(Local, async (_context, { fn }) => ({ n: fn() }))
+  expect(() => domain.localIngress.externalize(Local)).toThrow(LocalityError)
+  expect(() => domain.localIngress.connect(Local)).toThrow(LocalityError)
+})
+
+it("locality: local names can be used within their domain", async () => {
+  const domain = new BasicDomain()
+  domain.bind(Local, async (_context, { fn }) => ({ n: fn() }))
+  domain.bind(Caller, async (context) => {
+    using local = context.find(Local)
+    return await local({ fn: () => 42 })
+  })
+  using caller = domain.localIngress.externalize(Caller)
+  expect(await caller()).toEqual({ n: 42 })
+})
+
+it("locality: local names are not resolved through egresses", async () => {
+  const local = new BasicDomain({ retryPolicy: { maxAttempts: 1 } })
+  const remote = new BasicDomain()
+  local.addEgress(remote.localIngress)
+  remote.bind(Local, async (_context, { fn }) => ({ n: fn() }))
+  remote.bind(name({ svc: "local", kind: "public" }), async () => ({ n: 0 }))
+
+  // Local patterns do not leave the domain, egresses or not
+  expect(await local.resolver.resolve(Local)).toBeUndefined()
+  expect(await new BasicDomain().resolver.resolve(Local)).toBeUndefined()
+  // Local names are invisible to patterns arriving from other domains
+  const resolution = await local.resolver.resolve({ svc: "local" })
+  expect(resolution?.name).toEqual({ svc: "local", kind: "public" })
+
+  local.bind(Caller, async (context) => {
+    using remoteLocal = context.find(Local)
+    return await remoteLocal({ fn: () => 42 })
+  })
+  using caller = local.localIngress.externalize(Caller)
+  const err = (await caller().catch((e: unknown) => e)) as RetriesExhaustedError
+  expect(err).toBeInstanceOf(RetriesExhaustedError)
+  expect(err.errors[0]).toBeInstanceOf(UnresolvedPatternError)
+})
+
+it("locality: arguments and results crossing boundaries are serializable", async () => {
+  const domain = new BasicDomain()
+  domain.bind(Echo, async (_context, arg: unknown) => arg)
+  using echo = domain.localIngress.externalize(Echo)
+
+  expect(await echo({ a: [1, "b", null, { c: true }] })).toEqual({
+    a: [1, "b", null, { c: true }]
+  })
+  const err = (await echo({ a: [1, new Date()] }).catch(
+    (e: unknown) => e
+  )) as SerializationError
+  expect(err).toBeInstanceOf(SerializationError)
+  expect(err.isTransient).toBe(false)
+  expect(err.target).toBe("argument")
+  expect(err.path).toBe("$.a[1]")
+  expect(err.message).toBe(
+    "Unserializable argument at $.a[1]: instance of class Date"
+  )
+})
+
+it("locality: unserializable results are refused", async () => {
+  const domain = new BasicDomain()
+  domain.bind(Echo, async () => ({ fn: () => 1 }))
+  using echo = domain.localIngress.externalize(Echo)
+  await expect(echo()).rejects.toMatchObject({
+    target: "result",
+    path: "$.fn"
+  })
+})
+
+it("locality: unserializable values are located precisely", () => {
+  const cyclic: Record<string, unknown> = { a: 1 }
+  cyclic.self = { back: cyclic }
+  expect(findUnserializable(cyclic)).toEqual({
+    path: "$.self.back",
+    problem: "cycle"
+  })
+  expect(findUnserializable({ a: { b: undefined } })).toEqual({
+    path: "$.a.b",
+    problem: "undefined"
+  })
+  expect(findUnserializable([1n])?.problem).toBe("bigint")
+  expect(findUnserializable({ n: NaN })?.path).toBe("$.n")
+  // Shared, acyclic references are fine
+  const shared = { x: 1 }
+  expect(findUnserializable({ a: shared, b: shared })).toBeUndefined()
+})
@@ -0,0 +1,119 @@
+import {
+  BasicDomain,
+  InMemorySpanExporter,
+  createJsonLinesLogger,
+  createTaggedLogger,
+  name,
+  type Logging
+} from ".."
+
+const Adder = name<{ a: number; b: number }, { sum: number }>({
+  svc: "math",
+  method: "add"
+})
+const Caller = name<undefined, { sum: number }>({ svc: "caller" })
+
+function jsonLines(): [Logging, Array<Record<string, unknown>>] {
+  const lines: Array<Record<string, unknown>> = []
+  const logger = createJsonLinesLogger((line) => {
+    lines.push(JSON.parse(line) as Record<string, unknown>)
+  })
+  return [logger, lines]
+}
+
+it("logging: json lines carry the level, tags and formatted message", () => {
+  const [logger, lines] = jsonLines()
+  logger.warn({ user: "ada" }, "%d items", 3)
+  logger.info("plain")
+  logger.debug("%s is %j at 100%%", "ada", { age: 36 }, "extra", 1)
+  expect(lines).toMatchObject([
+    { level: "warn", user: "ada", msg: "3 items" },
+    { level: "info", msg: "plain" },
+    { level: "debug", msg: 'ada is {"age":36} at 100% extra 1' }
+  ])
+  expect(typeof lines[0].time).toBe("string")
+})
+
+it("logging: json lines render errors and survive unserializable tags", () => {
+  const [logger, lines] = jsonLines()
+  const err = Object.assign(new TypeError("bad input"), { code: "EBAD" })
+  logger.error({ err, size: 10n }, "failed")
+  const cyclic: Record<string, unknown> = {}
+  cyclic.self = cyclic
+  logger.warn({ cyclic }, "still logged")
+  expect(lines).toMatchObject([
+    {
+      level: "error",
+      err: { name: "TypeError", message: "bad input", code: "EBAD" },
+      size: "10",
+      msg: "failed"
+    },
+    { level: "warn", msg: "still logged" }
+  ])
+  expect((lines[0].err as { stack: string }).stack).toContain("bad input")
+  expect(lines[1].tagsError).toMatch(/Unserializable tags/)
+})
+
+it("logging: tagged loggers add tags and filter by level", () => {
+  const [backend, lines] = jsonLines()
+  const logger = createTaggedLogger(backend, { svc: "a" }, "info")
+  logger.debug("dropped")
+  logger.error({ code: 1 }, "kept")
+  expect(lines).toMatchObject([{ level: "error", svc: "a", code: 1 }])
+  expect(lines).toHaveLength(1)
+})
+
+it("logging: contexts tag messages with name, span and depth", async () => {
+  const [logger, lines] = jsonLines()
+  const exporter = new InMemorySpanExporter()
+  const domain = new BasicDomain({ logger, spanExporter: exporter })
+  domain.bind(Adder, async (context, { a, b }) => {
+    context.log.info("adding")
+    return { sum: a + b }
+  })
+  domain.bind(Caller, async (context) => {
+    context.log.info("calling")
+    using add = context.find(Adder)
+    return await add({ a: 1, b: 2 })
+  })
+  using caller = domain.localIngress.externalize(Caller)
+  await caller()
+
+  const [addSpan, callSpan] = exporter.spans
+  expect(lines).toMatchObject([
+    {
+      msg: "calling",
+      name: { svc: "caller" },
+      traceId: callSpan.traceId,
+      spanId: callSpan.spanId,
+      depth: 1
+    },
+    {
+      msg: "adding",
+      name: { svc: "math", method: "add" },
+      spanId: addSpan.spanId,
+      depth: 2
+    }
+  ])
+})
+
+it("logging: levels can be set per name pattern", async () => {
+  const [logger, lines] = jsonLines()
+  const domain = new BasicDomain({
+    logger,
+    logLevel: "warn",
+    logLevels: [{ pattern: { svc: "math" }, level: "debug" }]
+  })
+  domain.bind(Adder, async (context, { a, b }) => {
+    context.log.debug("adding")
+    return { sum: a + b }
+  })
+  domain.bind(Caller, async (context) => {
+    context.log.info("calling")
+    using add = context.find(Adder)
+    return await add({ a: 1, b: 2 })
+  })
+  using caller = domain.localIngress.externalize(Caller)
+  await caller()
+  expect(lines.map((line) => line.msg)).toEqual(["adding"])
+})
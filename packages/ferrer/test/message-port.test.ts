@@ -0,0 +1,229 @@
+import { resolve } from "node:path"
+import { MessageChannel, Worker } from "node:worker_threads"
+import {
+  AuthorizationError,
+  BasicDomain,
+  EarlyDisposalError,
+  FerrerError,
+  LocalityError,
+  MessagePortEgress,
+  MessagePortServer,
+  RemoteError,
+  StubError,
+  TimeoutError,
+  TraceEventType,
+  local_name,
+  name,
+  type TraceVector
+} from ".."
+
+const Adder = name<{ a: number; b: number }, { sum: number }>({
+  svc: "math",
+  method: "add"
+})
+const Caller = name<undefined, { sum: number }>({ svc: "caller" })
+
+function connectDomains() {
+  const { port1, port2 } = new MessageChannel()
+  const local = new BasicDomain({ retryPolicy: { initialDelay: 1 } })
+  const remote = new BasicDomain({ retryPolicy: { initialDelay: 1 } })
+  const server = new MessagePortServer(remote.localIngress, port2)
+  const egress = new MessagePortEgress(local, port1)
+  local.addEgress(egress)
+  local.bind(Caller, async (context) => {
+    using add = context.find(Adder)
+    return await add({ a: 1, b: 2 })
+  })
+  return {
+    local,
+    remote,
+    server,
+    egress,
+    [Symbol.dispose]() {
+      egress[Symbol.dispose]()
+      server[Symbol.dispose]()
+      port1.close()
+      port2.close()
+    }
+  }
+}
+
+it("message port: calls cross the port with traces intact", async () => {
+  using domains = connectDomains()
+  let remoteTrace: TraceVector = []
+  domains.remote.bind(Adder, async (context, { a, b }) => {
+    remoteTrace = context.trace
+    return { sum: a + b }
+  })
+
+  using caller = domains.local.localIngress.externalize(Caller)
+  expect(await caller()).toEqual({ sum: 3 })
+  expect(remoteTrace.map(([type]) => type)).toEqual([
+    TraceEventType.INGRESS_CALL,
+    TraceEventType.DOMAIN_CALL,
+    TraceEventType.DOMAIN_CALL,
+    TraceEventType.EGRESS_CALL,
+    TraceEventType.INGRESS_CALL,
+    TraceEventType.DOMAIN_CALL
+  ])
+})
+
+it("message port: remote errors keep their transience", async () => {
+  using domains = connectDomains()
+  let calls = 0
+  domains.remote.bind(Adder, async (context) => {
+    calls++
+    const err = new FerrerError(context, `failure ${calls}`)
+    err.isTransient = calls < 3
+    throw err
+  })
+
+  using caller = domains.local.localIngress.externalize(Caller)
+  const err = (await caller().catch((e: unknown) => e)) as RemoteError
+  expect(err).toBeInstanceOf(RemoteError)
+  expect(err.message).toBe("failure 3")
+  expect(err.remoteName).toBe("FerrerError")
+  expect(err.isTransient).toBe(false)
+})
+
+it("message port: registered errors are rehydrated with their causes", async () => {
+  using domains = connectDomains()
+  domains.remote.bind(Adder, async (context) => {
+    throw new StubError(context, "overflow", false)
+  })
+  using caller = domains.local.localIngress.externalize(Caller)
+  const err = (await caller().catch((e: unknown) => e)) as StubError
+  expect(err).toBeInstanceOf(StubError)
+  expect(err.message).toBe("overflow")
+  expect(err.resolvedName).toEqual(Adder)
+})
+
+it("message port: disposing an atom disposes the remote atom", async () => {
+  using domains = connectDomains()
+  domains.remote.bind(Adder, async (_context, { a, b }) => ({ sum: a + b }))
+
+  const resolution = await domains.egress.resolve(Adder)
+  const context = domains.local.createContext(undefined)
+  const impl = await resolution!.element.getAtom(Adder, context)
+  expect(await impl(context, { a: 2, b: 3 })).toEqual({ sum: 5 })
+  expect(domains.server._atoms.size).toBe(1)
+  impl[Symbol.dispose]()
+  await impl(context, { a: 2, b: 3 }).catch(() => undefined)
+  expect(domains.server._atoms.size).toBe(0)
+})
+
+it("message port: refused connections report why", async () => {
+  using domains = connectDomains()
+  const Local = local_name<undefined, { n: number }>({ svc: "local" })
+  domains.remote.bind(Local, async () => ({ n: 1 }))
+
+  const context = domains.local.createContext(undefined)
+  const handle = domains.egress._connect(Local)
+  await expect(
+    domains.egress._call(context, handle, undefined)
+  ).rejects.toBeInstanceOf(LocalityError)
+  expect(domains.server._refusals.size).toBe(1)
+  domains.egress._disconnect(handle)
+})
+
+it("message port: calls through a disposed egress fail", async () => {
+  using domains = connectDomains()
+  domains.remote.bind(Adder, async (_context, { a, b }) => ({ sum: a + b }))
+
+  const resolution = await domains.egress.resolve(Adder)
+  const context = domains.local.createContext(undefined)
+  using impl = await resolution!.element.getAtom(Adder, context)
+  expect(await impl(context, { a: 2, b: 3 })).toEqual({ sum: 5 })
+  domains.egress[Symbol.dispose]()
+  await expect(impl(context, { a: 2, b: 3 })).rejects.toBeInstanceOf(
+    EarlyDisposalError
+  )
+  await expect(domains.egress.resolve(Adder)).rejects.toBeInstanceOf(
+    EarlyDisposalError
+  )
+})
+
+it("message port: aborted calls stop awaiting a response", async () => {
+  using domains = connectDomains()
+  domains.remote.bind(
+    Adder,
+    async () => await new Promise<{ sum: number }>(() => {})
+  )
+  using add = domains.local.localIngress.externalize(Adder)
+  await expect(add({ a: 1, b: 2 }, { timeout: 10 })).rejects.toBeInstanceOf(
+    TimeoutError
+  )
+  expect(domains.egress._pending.size).toBe(0)
+})
+
+it("message port: resolution applies the ingress's policies", async () => {
+  using domains = connectDomains()
+  domains.remote.bind(Adder, async (_context, { a, b }) => ({ sum: a + b }))
+  domains.remote.localIngress.policies.push({
+    pattern: { svc: "math" },
+    effect: "deny"
+  })
+  await expect(domains.egress.resolve(Adder)).rejects.toBeInstanceOf(
+    AuthorizationError
+  )
+})
+
+it("message port: callers' security crosses the port", async () => {
+  using domains = connectDomains()
+  const WhoAmI = name<undefined, { principal: string }>({ svc: "whoami" })
+  domains.remote.bind(WhoAmI, async (context) => ({
+    principal: context.metadata.security?.principal ?? "anonymous"
+  }))
+  domains.remote.localIngress.policies.push(
+    { pattern: { svc: "whoami" }, effect: "allow", roles: ["admin"] },
+    { pattern: { svc: "whoami" }, effect: "deny" }
+  )
+  const WhoAsks = name<undefined, { principal: string }>({ svc: "asker" })
+  domains.local.bind(WhoAsks, async (context) => {
+    using whoAmI = context.find(WhoAmI)
+    return await whoAmI()
+  })
+  using asAlice = domains.local.localIngress.externalize(WhoAsks, {
+    metadata: { security: { principal: "alice", roles: ["admin"] } }
+  })
+  expect(await asAlice()).toEqual({ principal: "alice" })
+  using asBob = domains.local.localIngress.externalize(WhoAsks, {
+    metadata: { security: { principal: "bob", roles: ["viewer"] } }
+  })
+  await expect(asBob()).rejects.toBeInstanceOf(AuthorizationError)
+})
+
+it("message port: unresolvable patterns are not resolved", async () => {
+  using domains = connectDomains()
+  expect(await domains.egress.resolve(Adder)).toBeUndefined()
+})
+
+it("message port: atoms run in a worker thread", async () => {
+  const worker = new Worker(
+    `
+    const { parentPort } = require("node:worker_threads")
+    const { BasicDomain, MessagePortServer, name } = require(${JSON.stringify(
+      resolve(__dirname, "../dist/cjs/index.js")
+    )})
+    const domain = new BasicDomain()
+    domain.bind(name({ svc: "math", method: "add" }), async (_context, { a, b }) => ({
+      sum: a + b
+    }))
+    new MessagePortServer(domain.localIngress, parentPort)
+    `,
+    { eval: true }
+  )
+  try {
+    const local = new BasicDomain()
+    using egress = new MessagePortEgress(local, worker)
+    local.addEgress(egress)
+    local.bind(Caller, async (context) => {
+      using add = context.find(Adder)
+      return await add({ a: 20, b: 22 })
+    })
+    using caller = local.localIngress.externalize(Caller)
+    expect(await caller()).toEqual({ sum: 42 })
+  } finally {
+    await worker.terminate()
+  }
+})
@@ -57,3 +57,87 @@ it("pattern matching: nested", () => {
     ])
   )
 })
+
+it("pattern matching: $in", () => {
+  const pattern = { svc: "db", version: { $in: [2, 3] } }
+  expect(matches({ svc: "db", version: 2 }, pattern)).toBe(true)
+  expect(matches({ svc: "db", version: 3 }, pattern)).toBe(true)
+  expect(matches({ svc: "db", version: 4 }, pattern)).toBe(false)
+  expect(matches({ svc: "db" }, pattern)).toBe(false)
+})
+
+it("pattern matching: $exists", () => {
+  expect(matches({ svc: "db", shard: 1 }, { shard: { $exists: true } })).toBe(
+    true
+  )
+  expect(matches({ svc: "db" }, { shard: { $exists: true } })).toBe(false)
+  expect(matches({ svc: "db" }, { shard: { $exists: false } })).toBe(true)
+  expect(matches({ svc: "db", shard: 1 }, { shard: { $exists: false } })).toBe(
+    false
+  )
+})
+
+it("pattern matching: $prefix", () => {
+  expect(matches({ svc: "db.users" }, { svc: { $prefix: "db." } })).toBe(true)
+  expect(matches({ svc: "cache.users" }, { svc: { $prefix: "db." } })).toBe(
+    false
+  )
+  expect(matches({ svc: 42 }, { svc: { $prefix: "4" } })).toBe(false)
+})
+
+it("pattern matching: ranges", () => {
+  const pattern = { version: { $gte: 2, $lt: 4 } }
+  expect(matches({ version: 1 }, pattern)).toBe(false)
+  expect(matches({ version: 2 }, pattern)).toBe(true)
+  expect(matches({ version: 3.5 }, pattern)).toBe(true)
+  expect(matches({ version: 4 }, pattern)).toBe(false)
+  expect(matches({ version: "3" }, pattern)).toBe(false)
+  expect(matches({ tag: "b" }, { tag: { $gt: "a", $lte: "b" } })).toBe(true)
+})
+
+it("pattern matching: $contains", () => {
+  const name = { svc: "db", tags: ["primary", { region: "eu" }] }
+  expect(matches(name, { tags: { $contains: "primary" } })).toBe(true)
+  expect(matches(name, { tags: { $contains: { region: "eu" } } })).toBe(true)
+  expect(matches(name, { tags: { $contains: "replica" } })).toBe(false)
+  expect(matches({ tags: "primary" }, { tags: { $contains: "primary" } })).toBe(
+    false
+  )
+})
+
+it("pattern matching: $not and $eq", () => {
+  expect(matches({ env: "prod" }, { env: { $not: "dev" } })).toBe(true)
+  expect(matches({ env: "dev" }, { env: { $not: "dev" } })).toBe(false)
+  expect(matches({}, { env: { $not: "dev" } })).toBe(true)
+  expect(
+    matches({ env: "dev" }, { env: { $not: { $in: ["dev", "test"] } } })
+  ).toBe(false)
+  expect(matches({ opts: { a: 1, b: 2 } }, { opts: { a: 1 } })).toBe(true)
+  expect(matches({ opts: { a: 1, b: 2 } }, { opts: { $eq: { a: 1 } } })).toBe(
+    false
+  )
+  expect(
+    matches({ opts: { a: 1, b: 2 } }, { opts: { $eq: { b: 2, a: 1 } } })
+  ).toBe(true)
+})
+
+it("pattern matching: operators nest inside objects and arrays", () => {
+  const name = { svc: "db", endpoint: { host: "db-1.internal", port: 5432 } }
+  expect(
+    matches(name, {
+      endpoint: { host: { $prefix: "db-" }, port: { $gte: 5000 } }
+    })
+  ).toBe(true)
+  expect(
+    matches({ range: [1, 10] }, { range: [{ $lte: 1 }, { $gte: 10 }] })
+  ).toBe(true)
+  expect(
+    matches({ range: [2, 10] }, { range: [{ $lte: 1 }, { $gte: 10 }] })
+  ).toBe(false)
+})
+
+it("pattern matching: unknown operators are rejected", () => {
+  expect(() => matches({ a: 1 }, { a: { $regex: "1" } })).toThrow(
+    "unknown pattern operator $regex"
+  )
+})
@@ -0,0 +1,206 @@
+import { deferred } from "@ferrer/utils"
+import {
+  BasicDomain,
+  EarlyDisposalError,
+  PooledElement,
+  TimeoutError,
+  name,
+  type Context,
+  type PooledImpl
+} from ".."
+
+const Query = name<{ sql: string }, { row: string }>({ svc: "db", op: "query" })
+
+/**
+ * Creates connections numbered in order, recording which are destroyed.
+ * Queries wait for `gate`, if one is set.
+ */
+function connections() {
+  let created = 0
+  const destroyed: number[] = []
+  const state = {
+    gate: undefined as Promise<void> | undefined,
+    destroyed,
+    get created() {
+      return created
+    },
+    create: () => {
+      const id = ++created
+      const impl: PooledImpl<{ sql: string }, { row: string }> = Object.assign(
+        async (_context: Context, { sql }: { sql: string }) => {
+          await state.gate
+          return { row: `${id}: ${sql}` }
+        },
+        {
+          [Symbol.asyncDispose]: () => {
+            destroyed.push(id)
+            return Promise.resolve()
+          }
+        }
+      )
+      return Promise.resolve(impl)
+    }
+  }
+  return state
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5))
+
+it("pool: implementations are leased for each call", async () => {
+  const domain = new BasicDomain()
+  const conns = connections()
+  const element = new PooledElement(Query, { create: conns.create })
+  domain.bind(Query, element)
+  using first = domain.localIngress.externalize(Query)
+  expect(await first({ sql: "select 1" })).toEqual({ row: "1: select 1" })
+  expect(element.leased).toBe(0)
+  expect(element.idle).toBe(1)
+  using second = domain.localIngress.externalize(Query)
+  expect(await second({ sql: "select 2" })).toEqual({ row: "1: select 2" })
+  expect(await first({ sql: "select 3" })).toEqual({ row: "1: select 3" })
+  expect(conns.created).toBe(1)
+  expect(conns.destroyed).toEqual([])
+})
+
+it("pool: calls wait while all implementations are leased", async () => {
+  const domain = new BasicDomain()
+  const conns = connections()
+  const gate = deferred<void>()
+  conns.gate = gate.promise
+  const element = new PooledElement(Query, { create: conns.create, max: 1 })
+  domain.bind(Query, element)
+  using first = domain.localIngress.externalize(Query)
+  using second = domain.localIngress.externalize(Query)
+  const pending = [first({ sql: "a" }), second({ sql: "b" })]
+  await tick()
+  expect(element.size).toBe(1)
+  expect(element.leased).toBe(1)
+  gate.resolve()
+  expect(await Promise.all(pending)).toEqual([{ row: "1: a" }, { row: "1: b" }])
+  expect(conns.created).toBe(1)
+})
+
+it("pool: calls waiting for an implementation can time out", async () => {
+  const domain = new BasicDomain()
+  const conns = connections()
+  const gate = deferred<void>()
+  conns.gate = gate.promise
+  const element = new PooledElement(Query, { create: conns.create, max: 1 })
+  domain.bind(Query, element)
+  using first = domain.localIngress.externalize(Query)
+  using second = domain.localIngress.externalize(Query)
+  const pending = first({ sql: "a" })
+  await expect(second({ sql: "b" }, { timeout: 5 })).rejects.toBeInstanceOf(
+    TimeoutError
+  )
+  expect(element._waiters.size).toBe(0)
+  gate.resolve()
+  await pending
+  expect(await second({ sql: "c" })).toEqual({ row: "1: c" })
+})
+
+it("pool: checkouts time out", async () => {
+  const domain = new BasicDomain()
+  const element = new PooledElement(Query, {
+    create: connections().create,
+    max: 1,
+    acquireTimeout: 5
+  })
+  const context = domain.createContext(undefined)
+  using _lease = await element.acquire(context)
+  await expect(element.acquire(context)).rejects.toBeInstanceOf(TimeoutError)
+  expect(element.size).toBe(1)
+})
+
+it("pool: invalid implementations are destroyed on checkout", async () => {
+  const domain = new BasicDomain()
+  const conns = connections()
+  let validation: () => boolean = () => true
+  const element = new PooledElement(Query, {
+    create: conns.create,
+    max: 1,
+    validate: () => validation()
+  })
+  const context = domain.createContext(undefined)
+  ;(await element.acquire(context))[Symbol.dispose]()
+  validation = () => false
+  {
+    using lease = await element.acquire(context)
+    expect(await lease(context, { sql: "a" })).toEqual({ row: "2: a" })
+  }
+  validation = () => {
+    throw new Error("connection reset")
+  }
+  {
+    using lease = await element.acquire(context)
+    expect(await lease(context, { sql: "b" })).toEqual({ row: "3: b" })
+  }
+  await tick()
+  expect(conns.destroyed).toEqual([1, 2])
+  expect(element.size).toBe(1)
+  expect(element.leased).toBe(0)
+})
+
+it("pool: idle implementations are evicted down to min", async () => {
+  const domain = new BasicDomain()
+  const conns = connections()
+  const element = new PooledElement(Query, {
+    create: conns.create,
+    min: 1,
+    idleTimeout: 5
+  })
+  const context = domain.createContext(undefined)
+  const leases = [
+    await element.acquire(context),
+    await element.acquire(context)
+  ]
+  for (const lease of leases) lease[Symbol.dispose]()
+  expect(element.idle).toBe(2)
+  await tick()
+  await tick()
+  expect(element.size).toBe(1)
+  expect(conns.destroyed).toHaveLength(1)
+})
+
+it("pool: warm creates min implementations", async () => {
+  const conns = connections()
+  const element = new PooledElement(Query, { create: conns.create, min: 2 })
+  await element.warm()
+  expect(element.idle).toBe(2)
+  expect(conns.created).toBe(2)
+})
+
+it("pool: returned leases cannot be used", async () => {
+  const domain = new BasicDomain()
+  const element = new PooledElement(Query, { create: connections().create })
+  const context = domain.createContext(undefined)
+  const lease = await element.acquire(context)
+  lease[Symbol.dispose]()
+  lease[Symbol.dispose]()
+  expect(element.idle).toBe(1)
+  await expect(lease(context, { sql: "a" })).rejects.toBeInstanceOf(
+    EarlyDisposalError
+  )
+})
+
+it("pool: shutdown closes the pool", async () => {
+  const domain = new BasicDomain()
+  const conns = connections()
+  const element = new PooledElement(Query, { create: conns.create })
+  domain.bind(Query, element)
+  const context = domain.createContext(undefined)
+  const lease = await element.acquire(context)
+  {
+    await using query = domain.localIngress.externalize(Query)
+    await query({ sql: "a" })
+  }
+  await domain.shutdown()
+  expect(conns.destroyed).toEqual([2])
+  lease[Symbol.dispose]()
+  await tick()
+  expect(conns.destroyed).toEqual([2, 1])
+  expect(element.size).toBe(0)
+  await expect(element.acquire(context)).rejects.toBeInstanceOf(
+    EarlyDisposalError
+  )
+})
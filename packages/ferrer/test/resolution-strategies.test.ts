@@ -0,0 +1,179 @@
+import { deferred } from "@ferrer/utils"
+import {
+  BasicDomain,
+  FunctionElement,
+  IndexedRegistry,
+  LeastInFlightStrategy,
+  MostSpecificStrategy,
+  PriorityStrategy,
+  RandomStrategy,
+  RegistryResolver,
+  RoundRobinStrategy,
+  name,
+  untyped_name,
+  type Name,
+  type ResolutionStrategy
+} from ".."
+
+const Db = name<undefined, { impl: string }>({ svc: "db" })
+
+function domainWith(
+  strategy: ResolutionStrategy,
+  bindings: Array<[Name, string, number?]>
+) {
+  const domain = new BasicDomain({ resolutionStrategy: strategy })
+  for (const [bound, impl, priority] of bindings) {
+    domain.bind(untyped_name(bound), async () => ({ impl }), { priority })
+  }
+  return domain
+}
+
+async function callOnce(domain: BasicDomain, pattern = Db) {
+  using atom = domain.localIngress.externalize(pattern)
+  return (await atom()).impl
+}
+
+it("strategies: the first match wins by default", async () => {
+  const domain = new BasicDomain()
+  domain.bind(Db, async () => ({ impl: "a" }))
+  domain.bind(Db, async () => ({ impl: "b" }))
+  expect(await callOnce(domain)).toBe("a")
+})
+
+it("strategies: most specific", async () => {
+  const domain = domainWith(new MostSpecificStrategy(), [
+    [{ svc: "db", region: "eu", tier: "gold" }, "eu-gold"],
+    [{ svc: "db", region: "eu" }, "eu"],
+    [{ svc: "db", region: "us" }, "us"]
+  ])
+  expect(await callOnce(domain)).toBe("eu")
+  expect(
+    await callOnce(domain, name({ svc: "db", region: "eu", tier: "gold" }))
+  ).toBe("eu-gold")
+})
+
+it("strategies: priority", async () => {
+  const domain = domainWith(new PriorityStrategy(), [
+    [{ svc: "db", n: 1 }, "low", -1],
+    [{ svc: "db", n: 2 }, "default"],
+    [{ svc: "db", n: 3 }, "high", 10],
+    [{ svc: "db", n: 4 }, "also high", 10]
+  ])
+  expect(await callOnce(domain)).toBe("high")
+})
+
+it("strategies: round robin", async () => {
+  const domain = domainWith(new RoundRobinStrategy(), [
+    [{ svc: "db", n: 1 }, "a"],
+    [{ svc: "db", n: 2 }, "b"],
+    [{ svc: "db", n: 3 }, "c"]
+  ])
+  const impls = []
+  for (let i = 0; i < 4; i++) impls.push(await callOnce(domain))
+  expect(impls).toEqual(["a", "b", "c", "a"])
+})
+
+it("strategies: load balancing re-selects for each call of an atom", async () => {
+  const domain = domainWith(new RoundRobinStrategy(), [
+    [{ svc: "db", n: 1 }, "a"],
+    [{ svc: "db", n: 2 }, "b"]
+  ])
+  using atom = domain.localIngress.externalize(Db)
+  const impls = []
+  for (let i = 0; i < 4; i++) impls.push((await atom()).impl)
+  expect(impls).toEqual(["a", "b", "a", "b"])
+})
+
+it("strategies: round robin remembers a bounded number of rotations", async () => {
+  const strategy = new RoundRobinStrategy(2)
+  const domain = domainWith(strategy, [
+    [{ svc: "db", n: 1 }, "a"],
+    [{ svc: "db", n: 2 }, "b"]
+  ])
+  expect(await callOnce(domain)).toBe("a")
+  expect(await callOnce(domain, name({ svc: "db", n: 1 }))).toBe("a")
+  expect(await callOnce(domain, name({ svc: "db", n: 2 }))).toBe("b")
+  expect(strategy._counters.size).toBe(2)
+  // The rotation of the first set was forgotten
+  expect(await callOnce(domain)).toBe("a")
+})
+
+it("strategies: random", async () => {
+  const domain = domainWith(new RandomStrategy(), [
+    [{ svc: "db", n: 1 }, "a"],
+    [{ svc: "db", n: 2 }, "b"]
+  ])
+  const seen = new Set<string>()
+  for (let i = 0; i < 50; i++) seen.add(await callOnce(domain))
+  expect(seen).toEqual(new Set(["a", "b"]))
+})
+
+it("strategies: least in flight", async () => {
+  const strategy = new LeastInFlightStrategy()
+  const domain = new BasicDomain({ resolutionStrategy: strategy })
+  const started = deferred<void>()
+  const gate = deferred<void>()
+  domain.bind(untyped_name({ svc: "db", n: 1 }), async () => {
+    started.resolve()
+    await gate.promise
+    return { impl: "a" }
+  })
+  domain.bind(untyped_name({ svc: "db", n: 2 }), async () => ({ impl: "b" }))
+
+  using atom = domain.localIngress.externalize(Db)
+  const pending = atom()
+  await started.promise
+  expect((await atom()).impl).toBe("b")
+  expect(await callOnce(domain)).toBe("b")
+  gate.resolve()
+  expect((await pending).impl).toBe("a")
+  expect((await atom()).impl).toBe("a")
+})
+
+it("strategies: least in flight atoms are disposed asynchronously", async () => {
+  const domain = new BasicDomain({
+    resolutionStrategy: new LeastInFlightStrategy()
+  })
+  const disposed: string[] = []
+  const element = new FunctionElement(Db, async () => ({ impl: "a" }))
+  element.getAtom = (pattern) =>
+    Promise.resolve(
+      Object.assign(async () => ({ impl: "a" }), {
+        [Symbol.dispose]: () => {
+          disposed.push("sync")
+        },
+        [Symbol.asyncDispose]: async () => {
+          await Promise.resolve()
+          disposed.push("async")
+        },
+        requestedPattern: pattern
+      })
+    )
+  domain.bind(Db, element)
+  {
+    await using atom = domain.localIngress.externalize(Db)
+    expect(await atom()).toEqual({ impl: "a" })
+  }
+  expect(disposed).toEqual(["async"])
+})
+
+it("strategies: can be set per resolver", async () => {
+  const registry = new IndexedRegistry()
+  const domain = new BasicDomain()
+  domain.registry = registry
+  domain.bind(Db, async () => ({ impl: "a" }))
+  domain.bind(Db, async () => ({ impl: "b" }), { priority: 1 })
+  const resolver = new RegistryResolver(
+    registry,
+    undefined,
+    new PriorityStrategy()
+  )
+  const resolution = await resolver.resolve(Db)
+  using impl = await resolution!.element.getAtom(
+    Db,
+    domain.createContext(undefined)
+  )
+  expect(await impl(domain.createContext(undefined), undefined)).toEqual({
+    impl: "b"
+  })
+})
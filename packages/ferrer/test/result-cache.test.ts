@@ -0,0 +1,164 @@
+import {
+  BasicDomain,
+  FunctionElement,
+  LruResultStore,
+  name,
+  resultCacheKey,
+  type AtomImpl,
+  type Context,
+  type Element,
+  type HealthStatus,
+  type Name
+} from ".."
+
+const Square = name<{ n: number }, { square: number }>({
+  svc: "math",
+  op: "square"
+})
+const Cube = name<{ n: number }, { cube: number }>({ svc: "math", op: "cube" })
+
+function mathDomain(ttl = 60_000, maxSize?: number) {
+  const domain = new BasicDomain()
+  const calls: number[] = []
+  domain.bind(
+    Square,
+    async (_context, { n }) => {
+      calls.push(n)
+      return { square: n * n }
+    },
+    { cache: { ttl, maxSize } }
+  )
+  return { domain, calls }
+}
+
+it("result cache: memoizes results by name and argument", async () => {
+  const { domain, calls } = mathDomain()
+  using square = domain.localIngress.externalize(Square)
+  expect(await square({ n: 3 })).toEqual({ square: 9 })
+  expect(await square({ n: 3 })).toEqual({ square: 9 })
+  expect(await square({ n: 4 })).toEqual({ square: 16 })
+  using other = domain.localIngress.externalize(name({ op: "square" }))
+  expect(await other({ n: 4 })).toEqual({ square: 16 })
+  expect(calls).toEqual([3, 4])
+})
+
+it("result cache: results expire after the ttl", async () => {
+  const { domain, calls } = mathDomain(10)
+  using square = domain.localIngress.externalize(Square)
+  await square({ n: 3 })
+  await new Promise((resolve) => setTimeout(resolve, 20))
+  await square({ n: 3 })
+  expect(calls).toEqual([3, 3])
+})
+
+it("result cache: the least recently used results are evicted", async () => {
+  const { domain, calls } = mathDomain(60_000, 2)
+  using square = domain.localIngress.externalize(Square)
+  await square({ n: 1 })
+  await square({ n: 2 })
+  await square({ n: 1 })
+  await square({ n: 3 })
+  await square({ n: 1 })
+  await square({ n: 2 })
+  expect(calls).toEqual([1, 2, 3, 2])
+})
+
+it("result cache: errors are not memoized", async () => {
+  const domain = new BasicDomain({ retryPolicy: { maxAttempts: 1 } })
+  let calls = 0
+  domain.bind(
+    Cube,
+    async (_context, { n }) => {
+      if (calls++ === 0) throw new Error("flaky")
+      return { cube: n ** 3 }
+    },
+    { cache: { ttl: 60_000 } }
+  )
+  using cube = domain.localIngress.externalize(Cube)
+  await expect(cube({ n: 2 })).rejects.toThrow("flaky")
+  expect(await cube({ n: 2 })).toEqual({ cube: 8 })
+  expect(await cube({ n: 2 })).toEqual({ cube: 8 })
+  expect(calls).toBe(2)
+})
+
+it("result cache: entries can be invalidated by name pattern", async () => {
+  const { domain, calls } = mathDomain()
+  domain.bind(Cube, async (_context, { n }) => ({ cube: n ** 3 }), {
+    cache: { ttl: 60_000 }
+  })
+  using square = domain.localIngress.externalize(Square)
+  using cube = domain.localIngress.externalize(Cube)
+  await square({ n: 2 })
+  await square({ n: 3 })
+  await cube({ n: 2 })
+
+  expect(domain.invalidateResults({ op: "square" })).toBe(2)
+  expect(domain.invalidateResults({ op: "square" })).toBe(0)
+  await square({ n: 2 })
+  expect(calls).toEqual([2, 3, 2])
+  expect(domain.invalidateResults({ svc: "math" })).toBe(2)
+})
+
+it("result cache: storage is pluggable", async () => {
+  const store = new LruResultStore()
+  const domain = new BasicDomain()
+  domain.bind(Square, async (_context, { n }) => ({ square: n * n }), {
+    cache: { ttl: 60_000, store }
+  })
+  using square = domain.localIngress.externalize(Square)
+  await square({ n: 5 })
+  const key = resultCacheKey({ op: "square", svc: "math" }, { n: 5 })
+  expect(store.get(key)?.value).toEqual({ square: 25 })
+})
+
+/** An element whose atom implementations record how they are disposed. */
+class DisposalElement extends FunctionElement<
+  { n: number },
+  { square: number }
+> {
+  disposed: string[] = []
+  state: HealthStatus["state"] = "healthy"
+  constructor() {
+    super(Square, async (_context, { n }) => ({ square: n * n }))
+  }
+  override async getAtom(
+    pattern: Name,
+    context: Context
+  ): Promise<AtomImpl<{ n: number }, { square: number }>> {
+    const impl = await super.getAtom(pattern, context)
+    return Object.assign((c: Context, arg: { n: number }) => impl(c, arg), {
+      [Symbol.dispose]: () => {
+        this.disposed.push("sync")
+      },
+      [Symbol.asyncDispose]: async () => {
+        await Promise.resolve()
+        this.disposed.push("async")
+      },
+      requestedPattern: pattern,
+      element: this as Element
+    })
+  }
+  checkHealth(): Promise<HealthStatus> {
+    return Promise.resolve({ state: this.state })
+  }
+}
+
+it("result cache: atoms are disposed and checked like the element's", async () => {
+  const domain = new BasicDomain()
+  const element = new DisposalElement()
+  domain.bind(Square, element, { cache: { ttl: 60_000 } })
+  {
+    await using square = domain.localIngress.externalize(Square)
+    expect(await square({ n: 2 })).toEqual({ square: 4 })
+  }
+  expect(element.disposed).toEqual(["async"])
+
+  const [registration] = domain.registry.match(Square)
+  const context = domain.createContext(undefined)
+  using impl = await registration!.element.getAtom(Square, context)
+  expect(impl.element).toBe(element)
+  element.state = "unhealthy"
+  expect(await registration!.element.checkHealth?.()).toEqual({
+    state: "unhealthy"
+  })
+})
@@ -0,0 +1,164 @@
+import {
+  BasicDomain,
+  FerrerError,
+  RetriesExhaustedError,
+  RetryController,
+  name
+} from ".."
+
+class FlakyError extends Error {
+  isTransient = true
+}
+
+const Flaky = name<undefined, { ok: boolean }>({ svc: "flaky" })
+
+function failingTimes(count: number) {
+  let calls = 0
+  return async () => {
+    calls++
+    if (calls <= count) throw new FlakyError(`failure ${calls}`)
+    return { ok: true }
+  }
+}
+
+it("retry: transient errors are retried until success", async () => {
+  const domain = new BasicDomain({ retryPolicy: { initialDelay: 1 } })
+  domain.bind(Flaky, failingTimes(2))
+  using atom = domain.localIngress.externalize(Flaky)
+  expect(await atom()).toEqual({ ok: true })
+})
+
+it("retry: non-transient errors are rethrown immediately", async () => {
+  const domain = new BasicDomain()
+  let calls = 0
+  domain.bind(Flaky, async (context) => {
+    calls++
+    throw new FerrerError(context, "permanent")
+  })
+  using atom = domain.localIngress.externalize(Flaky)
+  await expect(atom()).rejects.toThrow("permanent")
+  expect(calls).toBe(1)
+})
+
+it("retry: exhausting max attempts aggregates every transient error", async () => {
+  const domain = new BasicDomain({
+    retryPolicy: { maxAttempts: 3, initialDelay: 1 }
+  })
+  domain.bind(Flaky, failingTimes(5))
+  using atom = domain.localIngress.externalize(Flaky)
+  const err = (await atom().catch((e: unknown) => e)) as RetriesExhaustedError
+  expect(err).toBeInstanceOf(RetriesExhaustedError)
+  expect(err.isTransient).toBe(false)
+  expect(err.errors.map((e) => (e as Error).message)).toEqual([
+    "failure 1",
+    "failure 2",
+    "failure 3"
+  ])
+  expect(err.message).toContain("failure 3")
+})
+
+it("retry: unresolved patterns give up rather than spinning", async () => {
+  const domain = new BasicDomain({
+    retryPolicy: { maxAttempts: 2, initialDelay: 1 }
+  })
+  using atom = domain.localIngress.externalize(Flaky)
+  await expect(atom()).rejects.toThrow(RetriesExhaustedError)
+})
+
+it("retry: per-call options override the domain policy", async () => {
+  const domain = new BasicDomain({ retryPolicy: { maxAttempts: 1 } })
+  domain.bind(Flaky, failingTimes(1))
+  using atom = domain.localIngress.externalize(Flaky, {
+    retry: { maxAttempts: 2, initialDelay: 1 }
+  })
+  expect(await atom()).toEqual({ ok: true })
+
+  const Flakier = name<undefined, { ok: boolean }>({ svc: "flakier" })
+  const Caller = name<undefined, { ok: boolean }>({ svc: "caller" })
+  domain.bind(Flakier, failingTimes(3))
+  domain.bind(Caller, async (context) => {
+    using flakier = context.find(Flakier, {
+      retry: { maxAttempts: 4, initialDelay: 1 }
+    })
+    return await flakier()
+  })
+  using caller = domain.localIngress.externalize(Caller)
+  expect(await caller()).toEqual({ ok: true })
+})
+
+it("retry: options left undefined keep the policy's values", async () => {
+  const domain = new BasicDomain({ retryPolicy: { initialDelay: 1 } })
+  domain.bind(Flaky, failingTimes(1))
+  using atom = domain.localIngress.externalize(Flaky, {
+    retry: { maxAttempts: undefined, initialDelay: undefined }
+  })
+  expect(await atom()).toEqual({ ok: true })
+  const controller = new RetryController(
+    { maxAttempts: 3 },
+    {
+      maxAttempts: undefined
+    }
+  )
+  expect(controller.policy.maxAttempts).toBe(3)
+  expect(controller.policy.initialDelay).toBe(10)
+})
+
+it("retry: the error classifier decides what is transient", async () => {
+  const domain = new BasicDomain({
+    retryPolicy: {
+      initialDelay: 1,
+      isTransient: (err) => err instanceof Error && err.message === "again"
+    }
+  })
+  let calls = 0
+  domain.bind(Flaky, async () => {
+    calls++
+    if (calls < 3) throw new Error("again")
+    return { ok: true }
+  })
+  using atom = domain.localIngress.externalize(Flaky)
+  expect(await atom()).toEqual({ ok: true })
+  expect(calls).toBe(3)
+})
+
+it("retry: exponential backoff is capped by maxDelay", () => {
+  const controller = new RetryController({
+    initialDelay: 10,
+    backoffFactor: 3,
+    maxDelay: 50,
+    jitter: 0
+  })
+  expect(controller.nextDelay()).toBe(0)
+  controller.transientError(new FlakyError())
+  expect(controller.nextDelay()).toBe(10)
+  controller.transientError(new FlakyError())
+  expect(controller.nextDelay()).toBe(30)
+  controller.transientError(new FlakyError())
+  expect(controller.nextDelay()).toBe(50)
+})
+
+it("retry: jitter randomizes the delay downwards", () => {
+  const controller = new RetryController({ initialDelay: 100, jitter: 1 })
+  controller.transientError(new FlakyError())
+  for (let i = 0; i < 20; i++) {
+    const delay = controller.nextDelay()
+    expect(delay).toBeGreaterThanOrEqual(0)
+    expect(delay).toBeLessThanOrEqual(100)
+  }
+})
+
+it("retry: the deadline bounds the whole call", async () => {
+  const domain = new BasicDomain({
+    retryPolicy: {
+      maxAttempts: Infinity,
+      initialDelay: 5,
+      maxDelay: 5,
+      deadline: 50
+    }
+  })
+  domain.bind(Flaky, failingTimes(Infinity))
+  using atom = domain.localIngress.externalize(Flaky)
+  const started = Date.now()
+  await expect(atom()).rejects.toThrow(RetriesExhaustedError)
+  expect(Date.now() - started).toBeLessThan(1000)
+})
@@ -0,0 +1,148 @@
+import { deferred } from "@ferrer/utils"
+import {
+  BasicDomain,
+  FunctionElement,
+  ShutdownError,
+  createJsonLinesLogger,
+  name,
+  type AtomImpl,
+  type Context,
+  type Name
+} from ".."
+
+const Job = name<undefined, { done: boolean }>({ svc: "job" })
+
+/** An element whose atom implementations take time to dispose. */
+class SlowDisposalElement extends FunctionElement<
+  undefined,
+  { done: boolean }
+> {
+  disposed: string[] = []
+  failDisposal = false
+  constructor(fn: () => Promise<{ done: boolean }>) {
+    super(Job, fn)
+  }
+  override async getAtom(
+    pattern: Name,
+    context: Context
+  ): Promise<AtomImpl<undefined, { done: boolean }>> {
+    const impl = await super.getAtom(pattern, context)
+    return Object.assign((c: Context, arg: undefined) => impl(c, arg), {
+      [Symbol.dispose]: () => {
+        this.disposed.push("sync")
+      },
+      [Symbol.asyncDispose]: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        if (this.failDisposal) throw new Error("connection stuck")
+        this.disposed.push("async")
+      },
+      requestedPattern: pattern
+    })
+  }
+  async [Symbol.asyncDispose]() {
+    await Promise.resolve()
+    this.disposed.push("element")
+  }
+}
+
+it("shutdown: atoms can be disposed asynchronously", async () => {
+  const domain = new BasicDomain()
+  const element = new SlowDisposalElement(async () => ({ done: true }))
+  domain.bind(Job, element)
+  {
+    await using job = domain.localIngress.externalize(Job)
+    await job()
+  }
+  expect(element.disposed).toEqual(["async"])
+  {
+    using job = domain.localIngress.externalize(Job)
+    await job()
+  }
+  expect(element.disposed).toEqual(["async", "sync"])
+})
+
+it("shutdown: drains calls in flight and refuses new ones", async () => {
+  const domain = new BasicDomain()
+  const release = deferred<void>()
+  const started = deferred<void>()
+  const element = new SlowDisposalElement(async () => {
+    started.resolve()
+    await release.promise
+    return { done: true }
+  })
+  domain.bind(Job, element)
+  using job = domain.localIngress.externalize(Job)
+  const inFlight = job()
+  await started.promise
+
+  const shutdown = domain.shutdown()
+  await expect(job()).rejects.toBeInstanceOf(ShutdownError)
+  expect(element.disposed).toEqual([])
+  release.resolve()
+  expect(await inFlight).toEqual({ done: true })
+  expect(await shutdown).toEqual({ drained: true, errors: [] })
+  expect(element.disposed).toEqual(["async", "element"])
+  expect(domain.lifecycles.size).toBe(0)
+  expect(domain.shutdown()).toBe(shutdown)
+})
+
+it("shutdown: calls still in flight at the deadline are aborted", async () => {
+  const domain = new BasicDomain()
+  const started = deferred<void>()
+  domain.bind(Job, async () => {
+    started.resolve()
+    return await new Promise<{ done: boolean }>(() => {})
+  })
+  using job = domain.localIngress.externalize(Job)
+  const inFlight = job()
+  await started.promise
+  const report = await domain.shutdown({ deadline: 10 })
+  expect(report.drained).toBe(false)
+  await expect(inFlight).rejects.toBeInstanceOf(ShutdownError)
+})
+
+it("shutdown: the deadline holds for calls made outside ingresses", async () => {
+  const domain = new BasicDomain()
+  const started = deferred<void>()
+  domain.bind(Job, async () => {
+    started.resolve()
+    return await new Promise<{ done: boolean }>(() => {})
+  })
+  using job = domain.createContext(undefined).find(Job)
+  const inFlight = job()
+  await started.promise
+  const report = await domain.shutdown({ deadline: 10 })
+  expect(report.drained).toBe(false)
+  await expect(inFlight).rejects.toBeInstanceOf(ShutdownError)
+})
+
+it("shutdown: disposal failures are logged and reported", async () => {
+  const lines: Array<Record<string, unknown>> = []
+  const domain = new BasicDomain({
+    logger: createJsonLinesLogger((line) => {
+      lines.push(JSON.parse(line) as Record<string, unknown>)
+    })
+  })
+  const element = new SlowDisposalElement(async () => ({ done: true }))
+  element.failDisposal = true
+  domain.bind(Job, element)
+  using job = domain.localIngress.externalize(Job)
+  await job()
+
+  const { errors } = await domain.shutdown()
+  expect(errors.map((err) => (err as Error).message)).toEqual([
+    "connection stuck"
+  ])
+  expect(lines).toMatchObject([
+    { level: "warn", msg: "Failed to dispose atom implementation" }
+  ])
+})
+
+it("shutdown: domains can be shut down with await using", async () => {
+  const element = new SlowDisposalElement(async () => ({ done: true }))
+  {
+    await using domain = new BasicDomain()
+    domain.bind(Job, element)
+  }
+  expect(element.disposed).toEqual(["element"])
+})
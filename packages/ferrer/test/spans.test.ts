@@ -0,0 +1,138 @@
+import {
+  BasicDomain,
+  FerrerError,
+  HttpIngressServer,
+  InMemorySpanExporter,
+  createSpanId,
+  createTraceId,
+  formatTraceparent,
+  name,
+  parseTraceparent,
+  type SpanContext
+} from ".."
+
+const Adder = name<{ a: number; b: number }, { sum: number }>({
+  svc: "math",
+  method: "add"
+})
+const Caller = name<undefined, { sum: number }>({ svc: "caller" })
+const Failing = name<undefined, { ok: boolean }>({ svc: "failing" })
+
+function bindCaller(domain: BasicDomain) {
+  domain.bind(Caller, async (context) => {
+    using add = context.find(Adder)
+    return await add({ a: 1, b: 2 })
+  })
+}
+
+it("spans: IDs are W3C-compatible hex strings", () => {
+  expect(createTraceId()).toMatch(/^[0-9a-f]{32}$/)
+  expect(createSpanId()).toMatch(/^[0-9a-f]{16}$/)
+  expect(createTraceId()).not.toEqual(createTraceId())
+})
+
+it("spans: traceparent headers round-trip", () => {
+  const span: SpanContext = {
+    traceId: createTraceId(),
+    spanId: createSpanId(),
+    sampled: true
+  }
+  const traceparent = formatTraceparent(span)
+  expect(traceparent).toBe(`00-${span.traceId}-${span.spanId}-01`)
+  expect(parseTraceparent(traceparent)).toEqual(span)
+  expect(
+    parseTraceparent(`00-${span.traceId}-${span.spanId}-00`)?.sampled
+  ).toBe(false)
+})
+
+it("spans: malformed traceparent headers are ignored", () => {
+  expect(parseTraceparent(undefined)).toBeUndefined()
+  expect(parseTraceparent("garbage")).toBeUndefined()
+  expect(
+    parseTraceparent(`00-${"0".repeat(32)}-${createSpanId()}-01`)
+  ).toBeUndefined()
+})
+
+it("spans: nested calls are recorded as child spans", async () => {
+  const exporter = new InMemorySpanExporter()
+  const domain = new BasicDomain({ spanExporter: exporter })
+  domain.bind(Adder, async (_context, { a, b }) => ({ sum: a + b }))
+  bindCaller(domain)
+
+  using caller = domain.localIngress.externalize(Caller)
+  await caller()
+
+  const [add, call] = exporter.spans
+  expect(call.name).toEqual({ svc: "caller" })
+  expect(call.parentSpanId).toBeUndefined()
+  expect(add.resolvedName).toEqual({ svc: "math", method: "add" })
+  expect(add.traceId).toBe(call.traceId)
+  expect(add.parentSpanId).toBe(call.spanId)
+  expect(add.startTime).toBeGreaterThanOrEqual(call.startTime)
+  expect(add.endTime).toBeLessThanOrEqual(call.endTime!)
+})
+
+it("spans: failed calls record their error", async () => {
+  const exporter = new InMemorySpanExporter()
+  const domain = new BasicDomain({ spanExporter: exporter })
+  domain.bind(Failing, async (context) => {
+    throw new FerrerError(context, "broken")
+  })
+  using failing = domain.localIngress.externalize(Failing)
+  await expect(failing()).rejects.toThrow("broken")
+  expect((exporter.spans[0].error as Error).message).toBe("broken")
+  expect(exporter.spans[0].endTime).toBeDefined()
+})
+
+it("spans: implementations see the span of their call", async () => {
+  const exporter = new InMemorySpanExporter()
+  const domain = new BasicDomain({ spanExporter: exporter })
+  let seen: SpanContext | undefined
+  domain.bind(Adder, async (context, { a, b }) => {
+    seen = context.span
+    return { sum: a + b }
+  })
+  using add = domain.localIngress.externalize(Adder)
+  await add({ a: 1, b: 2 })
+  expect(seen?.spanId).toBe(exporter.spans[0].spanId)
+})
+
+it("spans: traces continue through egresses", async () => {
+  const localSpans = new InMemorySpanExporter()
+  const remoteSpans = new InMemorySpanExporter()
+  const local = new BasicDomain({ spanExporter: localSpans })
+  const remote = new BasicDomain({ spanExporter: remoteSpans })
+  local.addEgress(remote.localIngress)
+  remote.bind(Adder, async (_context, { a, b }) => ({ sum: a + b }))
+  bindCaller(local)
+
+  using caller = local.localIngress.externalize(Caller)
+  await caller()
+
+  const remoteAdd = remoteSpans.spans[0]
+  const localAdd = localSpans.spans.find((span) => span.name.svc === "math")
+  expect(remoteAdd.traceId).toBe(localAdd?.traceId)
+  expect(remoteAdd.parentSpanId).toBe(localAdd?.spanId)
+})
+
+it("spans: remote callers are continued from their traceparent", async () => {
+  const exporter = new InMemorySpanExporter()
+  const domain = new BasicDomain({ spanExporter: exporter })
+  domain.bind(Adder, async (_context, { a, b }) => ({ sum: a + b }))
+  const server = new HttpIngressServer(domain.localIngress, {
+    expose: [{ svc: "math" }]
+  })
+  const traceId = createTraceId()
+  const spanId = createSpanId()
+  await server.dispatch(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "ferrer.call",
+      params: { pattern: Adder, arg: { a: 1, b: 2 } }
+    }),
+    `00-${traceId}-${spanId}-01`
+  )
+  expect(exporter.spans[0].traceId).toBe(traceId)
+  expect(exporter.spans[0].parentSpanId).toBe(spanId)
+})
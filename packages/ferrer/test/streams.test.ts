@@ -0,0 +1,91 @@
+import { deferred } from "@ferrer/utils"
+import { BasicDomain, name, stream_name } from ".."
+
+const Count = stream_name<{ to: number }, number>({ svc: "count" })
+
+function countingDomain() {
+  const domain = new BasicDomain()
+  const state = { produced: 0, finalized: deferred<void>() }
+  domain.bind(Count, async (_context, { to }) => {
+    return (async function* () {
+      try {
+        for (let i = 1; i <= to; i++) {
+          state.produced = i
+          yield i
+        }
+      } finally {
+        state.finalized.resolve()
+      }
+    })()
+  })
+  return { domain, state }
+}
+
+it("streams: items are streamed to the consumer", async () => {
+  const { domain } = countingDomain()
+  const Sum = name<undefined, { sum: number }>({ svc: "sum" })
+  domain.bind(Sum, async (context) => {
+    using count = context.findStream(Count)
+    let sum = 0
+    for await (const n of count({ to: 4 })) sum += n
+    return { sum }
+  })
+  using sum = domain.localIngress.externalize(Sum)
+  expect(await sum()).toEqual({ sum: 10 })
+})
+
+it("streams: items are only produced on demand", async () => {
+  const { domain, state } = countingDomain()
+  using count = domain.createContext(undefined).findStream(Count)
+  const stream = count({ to: 100 })
+  expect(await stream.next()).toEqual({ value: 1, done: false })
+  expect(await stream.next()).toEqual({ value: 2, done: false })
+  await new Promise((resolve) => setTimeout(resolve, 10))
+  expect(state.produced).toBe(2)
+  await stream.return?.()
+})
+
+it("streams: breaking out of the loop stops the producer", async () => {
+  const { domain, state } = countingDomain()
+  using count = domain.createContext(undefined).findStream(Count)
+  const seen = []
+  for await (const n of count({ to: Infinity })) {
+    seen.push(n)
+    if (n === 3) break
+  }
+  await state.finalized.promise
+  expect(seen).toEqual([1, 2, 3])
+  expect(state.produced).toBe(3)
+})
+
+it("streams: disposing the atom stops open streams", async () => {
+  const { domain, state } = countingDomain()
+  const count = domain.createContext(undefined).findStream(Count)
+  const stream = count({ to: Infinity })
+  await stream.next()
+  count[Symbol.dispose]()
+  await state.finalized.promise
+  expect(await stream.next()).toEqual({ value: undefined, done: true })
+})
+
+it("streams: producer errors reach the consumer", async () => {
+  const domain = new BasicDomain()
+  domain.bind(Count, async () => {
+    return (async function* () {
+      yield 1
+      throw new Error("stream broke")
+    })()
+  })
+  using count = domain.createContext(undefined).findStream(Count)
+  const seen: number[] = []
+  await expect(
+    (async () => {
+      for await (const n of count({ to: 2 })) seen.push(n)
+    })()
+  ).rejects.toThrow("stream broke")
+  expect(seen).toEqual([1])
+})
+
+it("streams: stream names are local", () => {
+  expect(Count.local).toBe(true)
+})
@@ -0,0 +1,93 @@
+import {
+  CallRecorder,
+  TrackingElement,
+  assertAllDisposed,
+  assertAttempts,
+  createTestDomain,
+  isolateGlobalDomain,
+  stubFailing,
+  stubFailingTimes,
+  stubReturning
+} from "@ferrer/ferrer/testing"
+import { RetriesExhaustedError, StubError, bind, external, name } from ".."
+
+const Quote = name<{ symbol: string }, { price: number }>({ svc: "quotes" })
+const Portfolio = name<undefined, { total: number }>({ svc: "portfolio" })
+
+it("testing: isolated global domains do not leak bindings", async () => {
+  {
+    using isolated = isolateGlobalDomain()
+    bind(Quote, stubReturning({ price: 1 }))
+    using quote = external(Quote)
+    expect(await quote({ symbol: "A" })).toEqual({ price: 1 })
+    expect(isolated.domain.registry.match(Quote)).toHaveLength(1)
+  }
+  using _isolated = isolateGlobalDomain(
+    createTestDomain({ retryPolicy: { maxAttempts: 1 } })
+  )
+  using quote = external(Quote)
+  await expect(quote({ symbol: "A" })).rejects.toThrow(RetriesExhaustedError)
+})
+
+it("testing: recorders capture every attempt at a call", async () => {
+  const domain = createTestDomain()
+  domain.bind(Quote, stubFailingTimes(2, { price: 42 }))
+  domain.bind(Portfolio, async (context) => {
+    using quote = context.find(Quote)
+    const { price } = await quote({ symbol: "ACME" })
+    return { total: price * 2 }
+  })
+  using recorder = new CallRecorder(domain)
+  using portfolio = domain.localIngress.externalize(Portfolio)
+  expect(await portfolio()).toEqual({ total: 84 })
+
+  const quotes = recorder.callsTo(Quote)
+  expect(quotes.map((call) => call.outcome)).toEqual([
+    "error",
+    "error",
+    "result"
+  ])
+  expect(quotes[0]).toMatchObject({
+    pattern: Quote,
+    name: Quote,
+    arg: { symbol: "ACME" },
+    direction: "outbound"
+  })
+  expect(quotes[0].error).toBeInstanceOf(StubError)
+  expect(quotes[2].result).toEqual({ price: 42 })
+  expect(quotes[2].trace.at(-1)).toEqual([expect.anything(), Quote])
+  assertAttempts(recorder, Quote, { attempts: 3, failures: 2, succeeded: true })
+  assertAttempts(recorder, Portfolio, { attempts: 1, succeeded: true })
+  expect(() => assertAttempts(recorder, Quote, { attempts: 1 })).toThrow(
+    'Expected attempts of {"svc":"quotes"} to be 1, but was 3'
+  )
+})
+
+it("testing: failing stubs are not retried by default", async () => {
+  const domain = createTestDomain()
+  domain.bind(Quote, stubFailing())
+  using recorder = new CallRecorder(domain)
+  using quote = domain.localIngress.externalize(Quote)
+  await expect(quote({ symbol: "A" })).rejects.toThrow("Stub failure")
+  assertAttempts(recorder, Quote, {
+    attempts: 1,
+    failures: 1,
+    succeeded: false
+  })
+})
+
+it("testing: tracking elements check atom disposal", async () => {
+  const domain = createTestDomain()
+  const element = new TrackingElement(Quote, stubReturning({ price: 1 }))
+  const binding = domain.bind(Quote, element)
+  const quote = domain.localIngress.externalize(Quote)
+  await quote({ symbol: "A" })
+  await quote({ symbol: "B" })
+  expect(element.acquired).toBe(1)
+  expect(() => assertAllDisposed(element)).toThrow("1 of 1 remain")
+
+  binding[Symbol.dispose]()
+  assertAllDisposed(element)
+  quote[Symbol.dispose]()
+  assertAllDisposed(element)
+})
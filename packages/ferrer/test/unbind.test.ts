@@ -0,0 +1,138 @@
+import { deferred } from "@ferrer/utils"
+import {
+  BasicDomain,
+  BasicRegistry,
+  FunctionElement,
+  IndexedRegistry,
+  LeastInFlightStrategy,
+  RetriesExhaustedError,
+  untyped_name,
+  type AtomImpl,
+  type Context,
+  type Element,
+  type Name
+} from ".."
+
+const Version = untyped_name({ svc: "version" })
+
+/** An element whose atom implementations record their disposal. */
+class TrackedElement implements Element {
+  name: Name = Version
+  disposed = 0
+  version: number
+  constructor(version: number) {
+    this.version = version
+  }
+  getAtom(
+    pattern: Name,
+    _context: Context
+  ): Promise<AtomImpl<unknown, unknown>> {
+    return Promise.resolve(
+      Object.assign(async () => ({ version: this.version }), {
+        [Symbol.dispose]: () => {
+          this.disposed++
+        },
+        requestedPattern: pattern
+      })
+    )
+  }
+}
+
+it("unbind: disposing a binding removes it", async () => {
+  const domain = new BasicDomain({ retryPolicy: { maxAttempts: 1 } })
+  const binding = domain.bind(Version, async () => ({ version: 1 }))
+  expect(binding.name).toBe(Version)
+  binding[Symbol.dispose]()
+  using atom = domain.localIngress.externalize(Version)
+  await expect(atom()).rejects.toThrow(RetriesExhaustedError)
+})
+
+it("unbind: bindings can be unbound like registrations", async () => {
+  const domain = new BasicDomain({ retryPolicy: { maxAttempts: 1 } })
+  const binding = domain.bind(Version, async () => ({ version: 1 }))
+  expect(domain.registry.match(Version)).toEqual([binding])
+  expect(domain.unbind(binding)).toBe(true)
+  expect(domain.registry.match(Version)).toEqual([])
+  using atom = domain.localIngress.externalize(Version)
+  await expect(atom()).rejects.toThrow(RetriesExhaustedError)
+  binding[Symbol.dispose]()
+  expect(domain.unbind(binding)).toBe(false)
+})
+
+it("unbind: cached lifecycles are invalidated and re-resolve", async () => {
+  const domain = new BasicDomain()
+  const v1 = new TrackedElement(1)
+  const v2 = new TrackedElement(2)
+  const binding = domain.bind(Version, v1)
+  using atom = domain.localIngress.externalize(Version)
+  expect(await atom()).toEqual({ version: 1 })
+  expect(await atom()).toEqual({ version: 1 })
+  expect(v1.disposed).toBe(0)
+
+  domain.bind(Version, v2)
+  binding[Symbol.dispose]()
+  expect(v1.disposed).toBe(1)
+  expect(await atom()).toEqual({ version: 2 })
+  expect(domain._elementWatchers.has(v1)).toBe(false)
+})
+
+it("unbind: implementations in use are disposed after their calls", async () => {
+  const domain = new BasicDomain()
+  const gate = deferred<void>()
+  const element = new TrackedElement(1)
+  const getAtom = element.getAtom.bind(element)
+  element.getAtom = async (pattern, context) => {
+    const impl = await getAtom(pattern, context)
+    return Object.assign(async (c: Context, arg: unknown) => {
+      await gate.promise
+      return await impl(c, arg)
+    }, impl)
+  }
+  const binding = domain.bind(Version, element)
+  using atom = domain.localIngress.externalize(Version)
+  const pending = atom()
+  await new Promise((resolve) => setTimeout(resolve, 5))
+  binding[Symbol.dispose]()
+  expect(element.disposed).toBe(0)
+  gate.resolve()
+  expect(await pending).toEqual({ version: 1 })
+  expect(element.disposed).toBe(1)
+})
+
+it("unbind: wrapped elements are invalidated too", async () => {
+  const domain = new BasicDomain({
+    resolutionStrategy: new LeastInFlightStrategy()
+  })
+  const v1 = new TrackedElement(1)
+  const binding = domain.bind(Version, v1)
+  domain.bind(Version, new TrackedElement(2))
+  using atom = domain.localIngress.externalize(Version)
+  expect(await atom()).toEqual({ version: 1 })
+  binding[Symbol.dispose]()
+  expect(v1.disposed).toBe(1)
+  expect(await atom()).toEqual({ version: 2 })
+})
+
+it("unbind: disposed atoms stop watching their element", async () => {
+  const domain = new BasicDomain()
+  const v1 = new TrackedElement(1)
+  domain.bind(Version, v1)
+  const atom = domain.localIngress.externalize(Version)
+  await atom()
+  expect(domain._elementWatchers.get(v1)?.size).toBe(1)
+  atom[Symbol.dispose]()
+  expect(domain._elementWatchers.has(v1)).toBe(false)
+})
+
+it("unbind: registries remove registrations", () => {
+  for (const registry of [new BasicRegistry(), new IndexedRegistry()]) {
+    const element = new FunctionElement(Version, async () => ({ version: 1 }))
+    const first = registry.register(Version, element)
+    const second = registry.register(Version, element)
+    expect(registry.unregister(first)).toBe(true)
+    expect(registry.unregister(first)).toBe(false)
+    expect(registry.match(Version)).toEqual([second])
+    expect(registry.unregister(second)).toBe(true)
+    expect(registry.match(Version)).toEqual([])
+  }
+})
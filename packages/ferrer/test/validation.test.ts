@@ -0,0 +1,92 @@
+import {
+  BasicDomain,
+  ValidationError,
+  name,
+  validate,
+  validated_name
+} from ".."
+
+const Adder = validated_name(
+  { svc: "math", method: "add" },
+  {
+    arg: {
+      type: "object",
+      properties: { a: { type: "number" }, b: { type: "number" } },
+      required: ["a", "b"],
+      additionalProperties: false
+    },
+    result: {
+      type: "object",
+      properties: { sum: { type: "number" } },
+      required: ["sum"]
+    }
+  }
+)
+
+it("validation: types are inferred from the schemas", async () => {
+  const domain = new BasicDomain()
+  domain.bind(Adder, async (_context, { a, b }) => ({ sum: a + b }))
+  using add = domain.localIngress.externalize(Adder)
+  const { sum }: { sum: number } = await add({ a: 1, b: 2 })
+  expect(sum).toBe(3)
+})
+
+it("validation: invalid arguments never reach the implementation", async () => {
+  const domain = new BasicDomain()
+  let calls = 0
+  domain.bind(Adder, async (_context, { a, b }) => {
+    calls++
+    return { sum: a + b }
+  })
+  // Arguments arriving from outside, e.g. through an ingress, are untyped
+  using add = domain.localIngress.externalize(name(Adder))
+  const err = (await add({ a: "1", c: 2 }).catch(
+    (e: unknown) => e
+  )) as ValidationError
+  expect(err).toBeInstanceOf(ValidationError)
+  expect(err.isTransient).toBe(false)
+  expect(err.target).toBe("argument")
+  expect(err.problems).toEqual([
+    "$.b: is required",
+    "$.a: expected a number",
+    "$.c: is not allowed"
+  ])
+  expect(calls).toBe(0)
+})
+
+it("validation: invalid results are rejected", async () => {
+  const domain = new BasicDomain()
+  domain.bind(Adder, (async () => ({ total: 3 })) as never)
+  using add = domain.localIngress.externalize(Adder)
+  await expect(add({ a: 1, b: 2 })).rejects.toMatchObject({
+    target: "result",
+    problems: ["$.sum: is required"]
+  })
+})
+
+it("validation: schemas play no part in matching", async () => {
+  const domain = new BasicDomain()
+  domain.bind(Adder, async (_context, { a, b }) => ({ sum: a + b }))
+  using add = domain.localIngress.externalize(
+    name<{ a: number; b: number }, { sum: number }>({ svc: "math" })
+  )
+  expect(await add({ a: 1, b: 2 })).toEqual({ sum: 3 })
+  expect(JSON.stringify(Adder)).toBe('{"svc":"math","method":"add"}')
+})
+
+it("validation: schemas cover the supported subset", () => {
+  expect(validate({ type: "string", enum: ["a", "b"] }, "c")).toHaveLength(1)
+  expect(validate({ type: "integer", minimum: 0 }, 1.5)).toEqual([
+    "$: expected an integer"
+  ])
+  expect(
+    validate({ type: "array", items: { type: "boolean" }, maxItems: 2 }, [
+      true,
+      1
+    ])
+  ).toEqual(["$[1]: expected a boolean"])
+  expect(
+    validate({ anyOf: [{ type: "null" }, { type: "string" }] }, null)
+  ).toEqual([])
+  expect(validate({ const: 3 }, 4)).toEqual(["$: expected 3"])
+})